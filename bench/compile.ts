@@ -0,0 +1,84 @@
+import _ from "lodash";
+import { array, compile, field, number, object, Parser, recursive, runParser, string, thing } from "../src";
+
+/**
+ * Compares `runParser` with the parsers given by `compile` on typical inputs. Run with `npm run bench`.
+ */
+
+interface Tree {
+  name: string;
+  children: Array<Tree>;
+}
+
+const tree: Parser<Tree, unknown> = recursive(() =>
+  object.of({
+    name: field.required("name", thing.is.string),
+    children: field.required("children", array.of(tree))
+  })
+);
+
+const event = object.strict({
+  id: field.required("id", string.format.uuid),
+  type: field.required("type", thing.is.string),
+  timestamp: field.required("timestamp", thing.is.number),
+  user: field.required(
+    "user",
+    object.of({
+      name: field.required("name", thing.is.string),
+      email: field.optional("email", thing.is.string),
+      age: field.optional("age", number.range.inclusive(0, 150))
+    })
+  ),
+  tags: field.required("tags", array.of(thing.is.string))
+});
+
+const sampleEvent = {
+  id: "123e4567-e89b-12d3-a456-426614174000",
+  type: "click",
+  timestamp: 1577836800000,
+  user: { name: "ada", email: "ada@example.com", age: 36 },
+  tags: ["a", "b", "c", "d"]
+};
+
+const sampleTree = (depth: number): Tree => ({
+  name: `node ${depth}`,
+  children: depth === 0 ? [] : [sampleTree(depth - 1), sampleTree(depth - 1)]
+});
+
+const cases: Array<[string, Parser<unknown, unknown>, unknown]> = [
+  ["flat numbers", array.of(thing.is.number), _.range(1000)],
+  ["event", event, sampleEvent],
+  ["event batch", array.of(event), _.times(100, () => sampleEvent)],
+  ["invalid event", event, { ...sampleEvent, user: { name: 1 } }],
+  ["tree", tree, sampleTree(8)]
+];
+
+/**
+ * The number of runs of `f` per second, measured over about `ms` milliseconds.
+ */
+const opsPerSecond = (f: () => void, ms: number = 500): number => {
+  let runs = 0;
+  const start = Date.now();
+  while (Date.now() - start < ms) {
+    for (let i = 0; i < 100; ++i) {
+      f();
+    }
+    runs += 100;
+  }
+  return (runs * 1000) / (Date.now() - start);
+};
+
+const format = (ops: number) => `${Math.round(ops).toLocaleString("en-US")} ops/s`;
+
+cases.forEach(([name, parser, input]) => {
+  const compiled = compile(parser);
+  if (!_.isEqual(runParser(compiled, input), runParser(parser, input))) {
+    throw new Error(`the compiled parser gives different results for ${name}`);
+  }
+  const interpreted = opsPerSecond(() => runParser(parser, input));
+  const fast = opsPerSecond(() => runParser(compiled, input));
+  console.log(
+    `${name.padEnd(16)} runParser ${format(interpreted).padStart(18)}   compiled ${format(fast).padStart(18)}` +
+      `   x${(fast / interpreted).toFixed(1)}`
+  );
+});
@@ -34,7 +34,7 @@ const test = {
   children: []
 };
 
-// Throws an error with result.left if it fails
+// Throws a ParseError (with the structured error in `.error`) if it fails
 const result: Person = runParserEx(personValidator, test);
 
 // Non-exception based
@@ -0,0 +1,141 @@
+import {
+  array,
+  bigint,
+  FastCheck,
+  FastCheckArbitrary,
+  field,
+  isSuccess,
+  literal,
+  map,
+  number,
+  object,
+  or,
+  Parser,
+  recursive,
+  runParser,
+  sample,
+  seeded,
+  string,
+  thing,
+  toArbitrary,
+  toFastCheck,
+  tuple,
+  union,
+  UnsupportedArbitraryError
+} from "./index";
+
+interface Comment {
+  author: string;
+  score: number;
+  replies: Array<Comment>;
+}
+
+const comment: Parser<Comment, unknown> = recursive(() =>
+  object.of({
+    author: field.required("author", string.pattern(/^[a-z]{3,8}(-[0-9]+)?$/)),
+    score: field.required("score", number.range.inclusive(-5, 5)),
+    replies: field.required("replies", array.of(comment))
+  })
+);
+
+const user = object.strict({
+  id: field.required("id", string.format.uuid),
+  email: field.required("email", string.format.email),
+  name: field.optional("name", string.minLength(2)),
+  role: field.required("role", or(thing.is.equalTo("admin"), thing.is.equalTo("member"))),
+  location: field.optional("location", tuple(number.range.inclusive(-90, 90), number.range.inclusive(-180, 180))),
+  tags: field.required("tags", array.maxLength(3, array.of(string.format.slug)))
+});
+
+const shape = union.tagged("kind", {
+  circle: object.of({ radius: field.required("radius", number.range.exclusive(0, 10)) }),
+  square: object.of({
+    side: field.required(
+      "side",
+      number.predicate(n => Number.isInteger(n) && n > 0)
+    )
+  })
+});
+
+const numbers = object.of({
+  count: field.required("count", number.uint8),
+  price: field.required("price", number.positive),
+  step: field.required("step", number.multipleOf(5)),
+  ratio: field.required("ratio", number.finite),
+  id: field.required("id", bigint.uint64),
+  unit: field.required("unit", literal("kg", "lb", 1, null))
+});
+
+const parsers: Record<string, Parser<unknown, unknown>> = { comment, user, shape, numbers };
+
+const depth = (c: Comment): number => 1 + Math.max(0, ...c.replies.map(depth));
+
+describe("toArbitrary", () => {
+  Object.keys(parsers).forEach(name =>
+    test(`${name} gives accepted values`, () => {
+      const parser = parsers[name];
+      const values = sample(toArbitrary(parser), 42, 50);
+      expect(values.filter(value => !isSuccess(runParser(parser, value)))).toEqual([]);
+    })
+  );
+
+  Object.keys(parsers).forEach(name =>
+    test(`${name} gives rejected values in the invalid mode`, () => {
+      const parser = parsers[name];
+      const values = sample(toArbitrary(parser, "invalid"), 42, 50);
+      expect(values.filter(value => isSuccess(runParser(parser, value)))).toEqual([]);
+    })
+  );
+
+  test("is deterministic", () => {
+    expect(sample(toArbitrary(user), 7)).toEqual(sample(toArbitrary(user), 7));
+    expect(sample(toArbitrary(user), 7)).not.toEqual(sample(toArbitrary(user), 8));
+  });
+
+  test("optional fields are sometimes left out", () => {
+    const values = sample(toArbitrary(user), 1, 50) as Array<Record<string, unknown>>;
+    expect(values.some(value => "name" in value)).toBeTruthy();
+    expect(values.some(value => !("name" in value))).toBeTruthy();
+  });
+
+  test("recursion is limited by the size", () => {
+    const values = sample(toArbitrary(comment), 3, 50, 3) as Array<Comment>;
+    expect(Math.max(...values.map(depth))).toBeLessThanOrEqual(4);
+    expect(Math.max(...values.map(depth))).toBeGreaterThan(1);
+  });
+
+  test("near misses", () => {
+    const values = sample(toArbitrary(number.range.inclusive(1, 10), "invalid"), 5, 30);
+    expect(values).toContain(0);
+    expect(values).toContain(11);
+    expect(values.some(value => typeof value === "string")).toBeTruthy();
+    const missing = sample(toArbitrary(user, "invalid"), 5, 100) as Array<Record<string, unknown>>;
+    expect(missing.some(value => typeof value === "object" && value !== null && !("id" in value))).toBeTruthy();
+  });
+
+  test("values of transformed parsers are inputs", () => {
+    const lengths = map(string.length(4), s => s.length);
+    expect(sample(toArbitrary(lengths), 1).every(value => typeof value === "string")).toBeTruthy();
+  });
+
+  test("unsupported parsers", () => {
+    expect(() => sample(toArbitrary(string.pattern(/^(?=a)b$/)), 1)).toThrow(UnsupportedArbitraryError);
+    expect(() => sample(toArbitrary(number.predicate(() => false)), 1)).toThrow(UnsupportedArbitraryError);
+  });
+});
+
+describe("toFastCheck", () => {
+  interface Fake<T> extends FastCheckArbitrary<T> {
+    value(): T;
+  }
+
+  const fake = <T>(value: () => T): Fake<T> => ({ value, map: <U>(f: (t: T) => U) => fake(() => f(value())) });
+
+  test("generates values from the seeds of fast-check", () => {
+    const seeds = [1, 2];
+    const fc: FastCheck = { integer: () => fake(() => seeds.shift()!) };
+    const arbitrary = toFastCheck(toArbitrary(user), fc) as Fake<unknown>;
+    expect(arbitrary.value()).toEqual(toArbitrary(user).generate(seeded(1), 5));
+    expect(arbitrary.value()).toEqual(toArbitrary(user).generate(seeded(2), 5));
+  });
+});
@@ -0,0 +1,760 @@
+import _ from "lodash";
+import { UnunknownError } from "./errors";
+import { StringFormat } from "./format";
+import { isSuccess, Parser } from "./index";
+import { AnyParser, Constraint, fieldMeta, Meta, preservesInput } from "./meta";
+import { PrimitiveString } from "./util";
+
+/**
+ * A seeded source of random numbers, so that generated values can be reproduced.
+ */
+export interface Random {
+  /** a number in [0, 1) */
+  next(): number;
+  /** an integer in [min, max] */
+  integer(min: number, max: number): number;
+  boolean(): boolean;
+  pick<T>(items: Array<T>): T;
+}
+
+/**
+ * A `Random` giving the same numbers for the same `seed` (using the mulberry32 generator).
+ */
+export function seeded(seed: number): Random {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const integer = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  return {
+    next,
+    integer,
+    boolean: () => next() < 0.5,
+    pick: <T>(items: Array<T>) => items[integer(0, items.length - 1)]
+  };
+}
+
+/**
+ * Generates values from a source of random numbers. `size` bounds the length of strings and arrays and how
+ * deeply recursive definitions are nested.
+ */
+export interface Arbitrary<T> {
+  generate(random: Random, size: number): T;
+}
+
+/**
+ * Thrown when no value can be generated for a parser, such as when its checks cannot be inspected and no
+ * candidate value passes them.
+ */
+export class UnsupportedArbitraryError extends UnunknownError {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedArbitraryError";
+  }
+}
+
+/**
+ * How many candidates are generated for checks that cannot be inspected before giving up.
+ */
+const attempts = 100;
+
+const printable = _.range(32, 127).map(code => String.fromCharCode(code));
+const digits = "0123456789".split("");
+const lowercase = "abcdefghijklmnopqrstuvwxyz".split("");
+const wordCharacters = [...lowercase, ...lowercase.map(c => c.toUpperCase()), ...digits, "_"];
+const whitespace = [" ", "\t", "\n"];
+const hexDigits = [...digits, ..."abcdef".split("")];
+const base64Characters = [...wordCharacters.filter(c => c !== "_"), "+", "/"];
+
+/**
+ * A pattern as a tree, for the subset of regular expressions that strings can be generated from.
+ */
+type Pattern =
+  | { _tag: "Characters"; characters: Array<string> }
+  | { _tag: "Sequence"; patterns: Array<Pattern> }
+  | { _tag: "Alternatives"; patterns: Array<Pattern> }
+  | { _tag: "Repeat"; pattern: Pattern; min: number; max?: number };
+
+const empty: Pattern = { _tag: "Sequence", patterns: [] };
+
+const unsupportedPattern = (source: string, reason: string) =>
+  new UnsupportedArbitraryError(`cannot generate strings matching /${source}/: ${reason}`);
+
+/**
+ * Parse the subset of regular expressions made of characters, classes, groups, alternatives and quantifiers.
+ * Anchors and word boundaries are ignored, as the generated strings match the whole pattern.
+ */
+const parsePattern = (source: string): Pattern => {
+  let position = 0;
+  const peek = () => source.charAt(position);
+  const escaped = (c: string, inClass: boolean): Array<string> => {
+    switch (c) {
+      case "d":
+        return digits;
+      case "w":
+        return wordCharacters;
+      case "s":
+        return whitespace;
+      case "D":
+        return _.difference(printable, digits);
+      case "W":
+        return _.difference(printable, wordCharacters);
+      case "S":
+        return _.difference(printable, whitespace);
+      case "n":
+        return ["\n"];
+      case "t":
+        return ["\t"];
+      case "r":
+        return ["\r"];
+      default:
+        if (/[0-9]/.test(c) || (!inClass && /[bBkpPux]/.test(c))) {
+          throw unsupportedPattern(source, `escape \\${c}`);
+        }
+        return [c];
+    }
+  };
+  const characterClass = (): Pattern => {
+    const negated = peek() === "^";
+    if (negated) {
+      ++position;
+    }
+    let characters: Array<string> = [];
+    let first = true;
+    while (position < source.length && (peek() !== "]" || first)) {
+      first = false;
+      let c = source.charAt(position++);
+      const members = c === "\\" ? escaped(source.charAt(position++), true) : [c];
+      if (
+        members.length === 1 &&
+        peek() === "-" &&
+        source.charAt(position + 1) !== "]" &&
+        position + 1 < source.length
+      ) {
+        ++position;
+        c = source.charAt(position++);
+        const end = c === "\\" ? source.charAt(position++) : c;
+        characters = [
+          ...characters,
+          ..._.range(members[0].charCodeAt(0), end.charCodeAt(0) + 1).map(code => String.fromCharCode(code))
+        ];
+      } else {
+        characters = [...characters, ...members];
+      }
+    }
+    if (peek() !== "]") {
+      throw unsupportedPattern(source, "unterminated character class");
+    }
+    ++position;
+    return { _tag: "Characters", characters: negated ? _.difference(printable, characters) : _.uniq(characters) };
+  };
+  const atom = (): Pattern => {
+    const c = source.charAt(position++);
+    switch (c) {
+      case "(":
+        if (peek() === "?") {
+          if (source.charAt(position + 1) !== ":") {
+            throw unsupportedPattern(source, "lookarounds and named groups");
+          }
+          position += 2;
+        }
+        const group = alternatives();
+        if (peek() !== ")") {
+          throw unsupportedPattern(source, "unterminated group");
+        }
+        ++position;
+        return group;
+      case "[":
+        return characterClass();
+      case ".":
+        return { _tag: "Characters", characters: printable };
+      case "\\":
+        const e = source.charAt(position++);
+        return e === "b" || e === "B" ? empty : { _tag: "Characters", characters: escaped(e, false) };
+      case "^":
+      case "$":
+        return empty;
+      default:
+        return { _tag: "Characters", characters: [c] };
+    }
+  };
+  const quantified = (pattern: Pattern): Pattern => {
+    const c = peek();
+    let repeat: Pattern | undefined;
+    if (c === "*" || c === "+" || c === "?") {
+      ++position;
+      repeat = { _tag: "Repeat", pattern, min: c === "+" ? 1 : 0, max: c === "?" ? 1 : undefined };
+    } else if (c === "{") {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(position));
+      if (match !== null) {
+        position += match[0].length;
+        const min = +match[1];
+        repeat = {
+          _tag: "Repeat",
+          pattern,
+          min,
+          max: match[2] === undefined ? min : match[3] === "" ? undefined : +match[3]
+        };
+      }
+    }
+    if (repeat === undefined) {
+      return pattern;
+    }
+    // lazy quantifiers match the same strings
+    if (peek() === "?") {
+      ++position;
+    }
+    return repeat;
+  };
+  const sequence = (): Pattern => {
+    const patterns: Array<Pattern> = [];
+    while (position < source.length && peek() !== "|" && peek() !== ")") {
+      patterns.push(quantified(atom()));
+    }
+    return { _tag: "Sequence", patterns };
+  };
+  const alternatives = (): Pattern => {
+    const patterns = [sequence()];
+    while (peek() === "|") {
+      ++position;
+      patterns.push(sequence());
+    }
+    return patterns.length === 1 ? patterns[0] : { _tag: "Alternatives", patterns };
+  };
+  const pattern = alternatives();
+  if (position < source.length) {
+    throw unsupportedPattern(source, `unexpected ${peek()}`);
+  }
+  return pattern;
+};
+
+const generatePattern = (pattern: Pattern, random: Random, size: number): string => {
+  switch (pattern._tag) {
+    case "Characters":
+      return random.pick(pattern.characters);
+    case "Sequence":
+      return pattern.patterns.map(each => generatePattern(each, random, size)).join("");
+    case "Alternatives":
+      return generatePattern(random.pick(pattern.patterns), random, size);
+    case "Repeat":
+      const count = random.integer(pattern.min, pattern.max === undefined ? pattern.min + size : pattern.max);
+      return _.times(count, () => generatePattern(pattern.pattern, random, size)).join("");
+  }
+};
+
+const word = (random: Random, characters: Array<string> = lowercase) =>
+  _.times(random.integer(1, 8), () => random.pick(characters)).join("");
+
+const hex = (random: Random, length: number) => _.times(length, () => random.pick(hexDigits)).join("");
+
+const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+
+const date = (random: Random) =>
+  `${random.integer(1970, 2099)}-${pad(random.integer(1, 12))}-${pad(random.integer(1, 28))}`;
+
+const time = (random: Random) =>
+  `${pad(random.integer(0, 23))}:${pad(random.integer(0, 59))}:${pad(random.integer(0, 59))}Z`;
+
+const ipv4 = (random: Random) => _.times(4, () => random.integer(0, 255)).join(".");
+
+const ipv6 = (random: Random) => _.times(8, () => hex(random, random.integer(1, 4))).join(":");
+
+const hostname = (random: Random) => `${word(random)}.${random.pick(["com", "org", "net", "io"])}`;
+
+const formatGenerators: { [F in StringFormat]: (random: Random) => string } = {
+  email: random => `${word(random)}@${hostname(random)}`,
+  url: random => `${random.pick(["http", "https"])}://${hostname(random)}/${word(random)}`,
+  uri: random => random.pick([`urn:${word(random)}:${word(random)}`, `mailto:${word(random)}@${hostname(random)}`]),
+  uuid: random =>
+    `${hex(random, 8)}-${hex(random, 4)}-4${hex(random, 3)}-${random.pick(["8", "9", "a", "b"])}${hex(random, 3)}-${hex(
+      random,
+      12
+    )}`,
+  date,
+  time,
+  "date-time": random => `${date(random)}T${time(random)}`,
+  duration: random => `P${random.integer(1, 30)}DT${random.integer(0, 23)}H`,
+  ipv4,
+  ipv6,
+  cidr: random =>
+    random.boolean() ? `${ipv4(random)}/${random.integer(0, 32)}` : `${ipv6(random)}/${random.integer(0, 128)}`,
+  hostname,
+  semver: random => _.times(3, () => random.integer(0, 20)).join("."),
+  base64: random => _.times(random.integer(0, 4) * 4, () => random.pick(base64Characters)).join(""),
+  hex: random => hex(random, random.integer(1, 16)),
+  e164: random => `+${random.integer(1, 9)}${_.times(random.integer(1, 14), () => random.pick(digits)).join("")}`,
+  slug: random => _.times(random.integer(1, 3), () => word(random, [...lowercase, ...digits])).join("-")
+};
+
+/**
+ * A value of a different type that could be mistaken for `value`, such as the string `"1"` for `1`.
+ */
+const confused = (value: unknown): unknown => {
+  switch (typeof value) {
+    case "string":
+      return value !== "" && isFinite(+value) ? +value : value.length;
+    case "number":
+      return String(value);
+    case "boolean":
+      return String(value);
+    case "bigint":
+      return Number(value);
+    case "undefined":
+      return null;
+    default:
+      return value === null
+        ? undefined
+        : JSON.stringify(value, (_key, each) => (typeof each === "bigint" ? String(each) : each));
+  }
+};
+
+class Generator {
+  constructor(private readonly random: Random) {}
+
+  /**
+   * Generate candidates with `candidate` until one of them is accepted (or rejected, if not `accepted`)
+   * by `parser`.
+   */
+  private until(parser: AnyParser, candidate: () => unknown, accepted: boolean = true): unknown {
+    for (let i = 0; i < attempts; ++i) {
+      const value = candidate();
+      if (isSuccess(parser.runParser(value)) === accepted) {
+        return value;
+      }
+    }
+    throw new UnsupportedArbitraryError(
+      `no ${accepted ? "valid" : "invalid"} value found in ${attempts} attempts${
+        parser.meta === undefined ? " for a custom parser" : ` for a parser of ${parser.meta._tag}`
+      }`
+    );
+  }
+
+  private ofType(type: PrimitiveString, size: number): unknown {
+    const random = this.random;
+    switch (type) {
+      case "string":
+        return _.times(random.integer(0, size), () => random.pick(printable)).join("");
+      case "number":
+        return random.boolean() ? random.integer(-10 * size, 10 * size) : (random.next() - 0.5) * 2000;
+      case "boolean":
+        return random.boolean();
+      case "bigint":
+        return BigInt(random.integer(-10 * size, 10 * size));
+      case "undefined":
+        return undefined;
+      case "symbol":
+        return Symbol(word(random));
+      case "function":
+        return () => undefined;
+      case "object":
+        return random.pick([() => null, () => this.anything(size), () => ({})])();
+    }
+  }
+
+  /**
+   * A JSON-like value: a primitive, or an array or object of them.
+   */
+  private anything(size: number): unknown {
+    const random = this.random;
+    const nested = () => this.anything(size - 1);
+    const kinds: Array<() => unknown> = [
+      () => this.ofType("string", size),
+      () => this.ofType("number", size),
+      () => this.ofType("boolean", size),
+      () => null
+    ];
+    const containers: Array<() => unknown> = [
+      () => _.times(random.integer(0, size), nested),
+      () => _.fromPairs(_.times(random.integer(0, size), () => [word(random), nested()]))
+    ];
+    return random.pick(size > 0 ? [...kinds, ...containers] : kinds)();
+  }
+
+  private string(constraint: Constraint, size: number): string | undefined {
+    switch (constraint._tag) {
+      case "Pattern":
+        const source = typeof constraint.pattern === "string" ? constraint.pattern : constraint.pattern.source;
+        return generatePattern(parsePattern(source), this.random, size);
+      case "Length":
+        const min = constraint.min === undefined ? 0 : constraint.min;
+        const length = this.random.integer(min, constraint.max === undefined ? min + size : constraint.max);
+        return _.times(length, () => this.random.pick(printable)).join("");
+      case "Format":
+        return formatGenerators[constraint.format](this.random);
+      default:
+        return undefined;
+    }
+  }
+
+  private number(constraint: Extract<Constraint, { _tag: "Range" }>, size: number): number | bigint {
+    const { exclusive } = constraint;
+    if (typeof constraint.min === "bigint" || typeof constraint.max === "bigint") {
+      return this.bigint(constraint, size);
+    }
+    // a missing bound is taken to be some way off the other one
+    const span = 10 * (size + 1);
+    const min = constraint.min !== undefined ? constraint.min : constraint.max! - span;
+    const max = constraint.max !== undefined ? constraint.max : min + span;
+    const low = Math.ceil(exclusive ? min + 1 : min);
+    const high = Math.floor(exclusive ? max - 1 : max);
+    if (low <= high && this.random.boolean()) {
+      return this.random.integer(low, high);
+    }
+    // a number strictly between the bounds, as the random number may be 0
+    const value = min + (max - min) * this.random.next();
+    return exclusive && value === min ? (min + max) / 2 : value;
+  }
+
+  private bigint(constraint: Extract<Constraint, { _tag: "Range" }>, size: number): bigint {
+    const span = BigInt(10 * (size + 1));
+    const min = constraint.min !== undefined ? BigInt(constraint.min) : BigInt(constraint.max!) - span;
+    const max = constraint.max !== undefined ? BigInt(constraint.max) : min + span;
+    // close to either bound, as the range may be too wide for numbers
+    const offset = BigInt(this.random.integer(0, Number(max - min < span ? max - min : span)));
+    return this.random.boolean() ? min + offset : max - offset;
+  }
+
+  private elements(element: AnyParser | undefined, size: number, min: number = 0, max: number = min + size) {
+    const count = this.random.integer(min, Math.max(min, Math.min(max, min + size)));
+    return _.times(count, () => (element === undefined ? this.anything(size - 1) : this.valid(element, size)));
+  }
+
+  private refinement(parser: AnyParser, meta: Extract<Meta, { _tag: "Refinement" }>, size: number): unknown {
+    const constraint = meta.constraint;
+    const base = meta.parser.meta;
+    switch (constraint._tag) {
+      case "Pattern":
+      case "Length":
+      case "Format":
+        if (base !== undefined && base._tag === "Type" && base.type === "string") {
+          return this.until(parser, () => this.string(constraint, size));
+        }
+        break;
+      case "Range":
+        if (base !== undefined && base._tag === "Type" && (base.type === "number" || base.type === "bigint")) {
+          return this.until(parser, () => this.number(constraint, size));
+        }
+        if (base !== undefined && base._tag === "Refinement" && base.constraint._tag === "Integer") {
+          return this.until(parser, () => Math.round(this.number(constraint, size) as number));
+        }
+        break;
+      case "Integer":
+        return this.until(parser, () => this.random.integer(-10 * size, 10 * size));
+      case "MultipleOf":
+        const multipleOf = constraint.multipleOf;
+        return this.until(parser, () => this.random.integer(-10 * size, 10 * size) * multipleOf);
+      case "Items":
+        if (base !== undefined && base._tag === "Array") {
+          const min = constraint.min === undefined ? 0 : constraint.min;
+          return this.until(parser, () => this.elements(base.element, size, min, constraint.max));
+        }
+    }
+    return this.until(parser, () => this.valid(meta.parser, size));
+  }
+
+  private object(meta: Extract<Meta, { _tag: "Struct" }>, size: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    Object.keys(meta.fields).forEach(key => {
+      const field = fieldMeta(meta.fields[key]);
+      // optional fields are sometimes left out, and always once the size budget is used up
+      if (field !== undefined && (!field.optional || (size > 0 && this.random.boolean()))) {
+        result[String(field.field)] = this.valid(field.parser, size);
+      }
+    });
+    const unknownKeys = meta.unknownKeys;
+    if (unknownKeys._tag !== "Strict" && size > 0 && this.random.boolean()) {
+      const key = `${word(this.random)}_`;
+      result[key] = unknownKeys._tag === "Catchall" ? this.valid(unknownKeys.parser, size) : this.anything(size - 1);
+    }
+    return result;
+  }
+
+  /**
+   * Generate an input accepted by `parser`.
+   */
+  valid(parser: AnyParser, size: number): unknown {
+    const meta = parser.meta;
+    const random = this.random;
+    if (meta === undefined) {
+      return this.until(parser, () => this.anything(size));
+    }
+    switch (meta._tag) {
+      case "Type":
+        return this.ofType(meta.type, size);
+      case "Object":
+        return random.boolean() ? {} : this.until(parser, () => this.anything(size));
+      case "Not":
+        return this.until(parser, () => this.anything(size));
+      case "Literal":
+        return meta.value;
+      case "Enum":
+        return random.pick(meta.values);
+      case "Refinement":
+        return this.refinement(parser, meta, size);
+      case "Struct":
+        return this.until(parser, () => this.object(meta, size));
+      case "Field":
+        return meta.optional && random.boolean() ? {} : { [String(meta.field)]: this.valid(meta.parser, size) };
+      case "Array":
+        return this.until(parser, () => this.elements(meta.element, size));
+      case "Tuple":
+        return meta.elements.map(element => this.valid(element, size));
+      case "Record":
+        const record = meta;
+        return this.until(parser, () =>
+          _.fromPairs(
+            _.times(random.integer(0, size), () => [this.valid(record.key, size), this.valid(record.value, size)])
+          )
+        );
+      case "Union":
+        return this.valid(random.pick(meta.alternatives), size);
+      case "Tagged":
+        const tag = random.pick(Object.keys(meta.variants));
+        const variant = this.valid(meta.variants[tag], size);
+        return typeof variant === "object" && variant !== null
+          ? { ...variant, [meta.field]: tag }
+          : { [meta.field]: tag };
+      case "Recursive":
+        return this.valid(meta.body(), size - 1);
+      case "Compose":
+        // the inputs accepted by `first` are generated unless they are what `second` checks
+        const compose = meta;
+        return preservesInput(meta.first.meta)
+          ? this.until(parser, () => this.valid(compose.second, size))
+          : this.until(parser, () => this.valid(compose.first, size));
+      case "Map":
+      case "MapError":
+      case "Default":
+      case "Catch":
+        return this.valid(meta.parser, size);
+      case "Chain":
+        const chained = meta.parser;
+        return this.until(parser, () => this.valid(chained, size));
+      case "Preprocess":
+        return this.until(parser, () => this.anything(size));
+    }
+  }
+
+  /**
+   * Candidates for inputs rejected by `parser` that are close to accepted ones, such as a number just out of
+   * range or an object missing one of its required fields.
+   */
+  private nearMisses(parser: AnyParser, size: number): Array<() => unknown> {
+    const meta = parser.meta;
+    const random = this.random;
+    const wrongType = () => confused(this.valid(parser, size));
+    if (meta === undefined) {
+      return [wrongType, () => this.anything(size)];
+    }
+    switch (meta._tag) {
+      case "Literal":
+        const value = meta.value;
+        return [
+          () => confused(value),
+          () =>
+            typeof value === "number"
+              ? value + 1
+              : typeof value === "string"
+              ? `${value}_`
+              : typeof value === "boolean"
+              ? !value
+              : undefined
+        ];
+      case "Enum":
+        const values = meta.values;
+        return [
+          () => confused(random.pick(values)),
+          () => {
+            const value = random.pick(values);
+            return typeof value === "string" ? `${value}_` : typeof value === "number" ? value + 0.5 : undefined;
+          }
+        ];
+      case "Refinement":
+        const constraint = meta.constraint;
+        const base = meta.parser;
+        switch (constraint._tag) {
+          case "Range":
+            const { min, max, exclusive } = constraint;
+            const step = (n: number | bigint, by: number) => (typeof n === "bigint" ? n + BigInt(by) : n + by);
+            return [
+              ...(min === undefined ? [] : [() => (exclusive ? min : step(min, -1))]),
+              ...(max === undefined ? [] : [() => (exclusive ? max : step(max, 1))]),
+              wrongType
+            ];
+          case "Integer":
+            return [() => (this.valid(parser, size) as number) + 0.5, wrongType];
+          case "Finite":
+            return [() => NaN, () => Infinity, () => -Infinity, wrongType];
+          case "MultipleOf":
+            const half = constraint.multipleOf / 2;
+            return [() => (this.valid(parser, size) as number) + half, wrongType];
+          case "Length":
+          case "Items":
+            const outside = [
+              ...(constraint.min !== undefined && constraint.min > 0 ? [constraint.min - 1] : []),
+              ...(constraint.max !== undefined ? [constraint.max + 1] : [])
+            ];
+            const element = base.meta !== undefined && base.meta._tag === "Array" ? base.meta.element : undefined;
+            const sized = (length: number) =>
+              constraint._tag === "Length"
+                ? _.times(length, () => random.pick(lowercase)).join("")
+                : this.elements(element, size, length, length);
+            return [...outside.map(length => () => sized(length)), wrongType];
+          default:
+            const valid = () => String(this.valid(parser, size));
+            return [
+              () => ` ${valid()}`,
+              () => valid().slice(1),
+              () => `${valid()}!`,
+              () => this.valid(base, size),
+              wrongType
+            ];
+        }
+      case "Struct":
+        const fields = meta.fields;
+        const required = Object.keys(fields)
+          .map(key => fieldMeta(fields[key]))
+          .filter(field => field !== undefined && !field.optional);
+        const changed = (f: (o: Record<string, unknown>) => void) => () => {
+          const o = { ...(this.valid(parser, size) as Record<string, unknown>) };
+          f(o);
+          return o;
+        };
+        return [
+          ...(required.length > 0 ? [changed(o => delete o[String(random.pick(required)!.field)])] : []),
+          ...Object.keys(fields).map(key => {
+            const field = fieldMeta(fields[key]);
+            return field === undefined
+              ? wrongType
+              : changed(o => (o[String(field.field)] = this.invalid(field.parser, size - 1)));
+          }),
+          ...(meta.unknownKeys._tag === "Strict" ? [changed(o => (o[`${word(random)}_`] = null))] : []),
+          wrongType
+        ];
+      case "Array":
+        const element = meta.element;
+        return element === undefined
+          ? [wrongType]
+          : [
+              () => {
+                const values = this.elements(element, size, 1);
+                values[random.integer(0, values.length - 1)] = this.invalid(element, size - 1);
+                return values;
+              },
+              wrongType
+            ];
+      case "Tuple":
+        const elements = meta.elements;
+        return [
+          () => {
+            const values = elements.map(each => this.valid(each, size));
+            return random.boolean() ? values.slice(1) : [...values, null];
+          },
+          () => {
+            const values = elements.map(each => this.valid(each, size));
+            const index = random.integer(0, elements.length - 1);
+            values[index] = this.invalid(elements[index], size - 1);
+            return values;
+          },
+          wrongType
+        ];
+      case "Union":
+        return [...meta.alternatives.map(alternative => () => this.invalid(alternative, size)), wrongType];
+      case "Tagged":
+        const tagged = meta;
+        return [
+          () => ({
+            ...(this.valid(parser, size) as object),
+            [tagged.field]: `${random.pick(Object.keys(tagged.variants))}_`
+          }),
+          ...Object.keys(tagged.variants).map(tag => () => {
+            const variant = this.invalid(tagged.variants[tag], size);
+            return typeof variant === "object" && variant !== null ? { ...variant, [tagged.field]: tag } : variant;
+          })
+        ];
+      case "Recursive":
+        return [() => this.invalid(meta.body(), size - 1)];
+      case "Field":
+        const name = String(meta.field);
+        const field = meta.parser;
+        return [...(meta.optional ? [] : [() => ({})]), () => ({ [name]: this.invalid(field, size) }), wrongType];
+      case "Compose":
+        const compose = meta;
+        return [
+          () => this.invalid(compose.first, size),
+          ...(preservesInput(meta.first.meta) ? [() => this.invalid(compose.second, size)] : []),
+          wrongType
+        ];
+      case "Map":
+      case "MapError":
+      case "Chain":
+      case "Default":
+        const inner = meta.parser;
+        return [() => this.invalid(inner, size), wrongType];
+      default:
+        return [wrongType];
+    }
+  }
+
+  /**
+   * Generate an input rejected by `parser`, preferring near misses of valid inputs.
+   */
+  invalid(parser: AnyParser, size: number): unknown {
+    const candidates = this.nearMisses(parser, size);
+    return this.until(parser, () => this.random.pick(candidates)(), false);
+  }
+}
+
+/**
+ * Derive an `Arbitrary` generating inputs accepted by a parser, such as for property-based testing. Constraints
+ * known to the library (patterns, lengths, ranges, formats and numbers of items) are generated directly, while
+ * other checks are met by generating candidates until one of them is accepted. Optional fields are sometimes
+ * left out, and recursive definitions are nested until `size` is used up.
+ *
+ * With `"invalid"`, the arbitrary generates inputs rejected by the parser that are close to accepted ones:
+ * values of the wrong type, objects missing a required field or with an invalid field, numbers just out of range
+ * and so on, for negative testing.
+ *
+ * @throws UnsupportedArbitraryError from `generate` when no value can be found
+ */
+export function toArbitrary<R, E, I>(parser: Parser<R, E, I>, mode: "valid" | "invalid" = "valid"): Arbitrary<unknown> {
+  return {
+    generate: (random, size) => {
+      const generator = new Generator(random);
+      return mode === "valid" ? generator.valid(parser, size) : generator.invalid(parser, size);
+    }
+  };
+}
+
+/**
+ * Generate `count` values from `arbitrary`, the same for the same `seed`.
+ */
+export function sample<T>(arbitrary: Arbitrary<T>, seed: number, count: number = 10, size: number = 5): Array<T> {
+  const random = seeded(seed);
+  return _.times(count, () => arbitrary.generate(random, size));
+}
+
+/**
+ * The part of the fast-check API used by `toFastCheck`, so that this library does not depend on it.
+ */
+export interface FastCheck {
+  integer(): FastCheckArbitrary<number>;
+}
+
+export interface FastCheckArbitrary<T> {
+  map<U>(f: (t: T) => U): FastCheckArbitrary<U>;
+}
+
+/**
+ * Use an `Arbitrary` as a fast-check arbitrary, seeded by the random numbers of fast-check so that failures
+ * can be replayed.
+ *
+ * @param fc the fast-check module, as in `toFastCheck(toArbitrary(parser), fc)`
+ */
+export function toFastCheck<T>(arbitrary: Arbitrary<T>, fc: FastCheck, size: number = 5): FastCheckArbitrary<T> {
+  return fc.integer().map(seed => arbitrary.generate(seeded(seed), size));
+}
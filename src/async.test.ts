@@ -0,0 +1,90 @@
+import { isLeft, isRight } from "fp-ts/lib/Either";
+import {
+  async,
+  AsyncParser,
+  field,
+  NotOfTypeError,
+  PredicateMismatchError,
+  report,
+  runParserAllAsync,
+  runParserAsync,
+  thing
+} from "./index";
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const taken = ["alice", "bob"];
+
+const uniqueName: AsyncParser<string, NotOfTypeError | PredicateMismatchError> = async.compose(
+  thing.is.string,
+  async.fromPromise((name: string) =>
+    delay(1).then(() =>
+      taken.indexOf(name) === -1
+        ? undefined
+        : ({ _tag: "PredicateMismatch", value: name, customMessage: `${name} is taken` } as PredicateMismatchError)
+    )
+  )
+);
+
+const signup = async.object.of({
+  name: async.field.required("name", uniqueName),
+  age: field.optional("age", thing.is.number),
+  friends: async.field.optional("friends", async.array.of(uniqueName))
+});
+
+describe("async parsers", () => {
+  test("succeeds with the result", async () => {
+    const result = await runParserAsync(signup, { name: "carol", age: 3, friends: ["dave"] });
+    expect(result).toEqual({ _tag: "Right", right: { name: "carol", age: 3, friends: ["dave"] } });
+  });
+
+  test("fails fast with nested errors", async () => {
+    const result = await runParserAsync(signup, { name: "carol", friends: ["dave", "bob"] });
+    expect(isLeft(result) && report.text(result.left)).toEqual("at .friends[1]: bob is taken");
+  });
+
+  test("collects every error with its path", async () => {
+    const result = await runParserAllAsync(signup, { name: "alice", age: "3", friends: ["bob", 1] });
+    expect(isLeft(result) && report.text(result.left).split("\n")).toEqual([
+      "at .name: alice is taken",
+      'at .age: expected number, got string "3"',
+      "at .friends[0]: bob is taken",
+      "at .friends[1]: expected string, got number 1"
+    ]);
+  });
+
+  test("lifts sync parsers", async () => {
+    expect(isRight(await runParserAsync(async.fromParser(thing.is.string), "a"))).toBeTruthy();
+    const parser = async.map(async.fromParser(thing.is.number), n => n + 1);
+    expect(await runParserAsync(parser, 1)).toEqual({ _tag: "Right", right: 2 });
+    const chained = async.chain(async.fromParser<number, NotOfTypeError | string, unknown>(thing.is.number), n =>
+      n > 0 ? async.succeed(n) : async.fail("neg")
+    );
+    expect(await runParserAsync(chained, -1)).toEqual({ _tag: "Left", left: "neg" });
+  });
+
+  test("limits concurrency and stops after a failure", async () => {
+    let running = 0;
+    let most = 0;
+    const started: Array<number> = [];
+    const slow = async.fromPromise((n: number) => {
+      started.push(n);
+      most = Math.max(most, ++running);
+      return delay(5).then(() => {
+        --running;
+        return n < 0 ? "negative" : undefined;
+      });
+    });
+    const parser = async.array.of(async.compose(thing.is.number, slow), { concurrency: 2 });
+    expect(isRight(await runParserAsync(parser, [1, 2, 3, 4, 5]))).toBeTruthy();
+    expect(most).toEqual(2);
+
+    started.length = 0;
+    const result = await runParserAsync(parser, [1, -2, 3, 4, 5, 6]);
+    expect(result).toEqual({
+      _tag: "Left",
+      left: { _tag: "ElementMisMatch", index: 1, value: [1, -2, 3, 4, 5, 6], cause: "negative" }
+    });
+    expect(started.length).toBeLessThan(6);
+  });
+});
@@ -0,0 +1,386 @@
+import * as E from "fp-ts/lib/Either";
+import { Either, isLeft, left, right } from "fp-ts/lib/Either";
+import { NonEmptyArray } from "fp-ts/lib/NonEmptyArray";
+import { Task } from "fp-ts/lib/Task";
+import * as TE from "fp-ts/lib/TaskEither";
+import { TaskEither } from "fp-ts/lib/TaskEither";
+import { FieldDoesNotExistError, PathError } from "./errors";
+import {
+  array as syncArray,
+  field as syncField,
+  Parser,
+  ParserErrorType,
+  ParserReturnType,
+  runParserAll,
+  thing
+} from "./index";
+
+export type ParseAsyncResult<Error, R> = TaskEither<Error, R>;
+
+export type ParseAllAsyncResult<Error, R> = TaskEither<NonEmptyArray<PathError<Error>>, R>;
+
+/**
+ * A parser whose result is computed asynchronously, for checks that need I/O such as looking up a value
+ * in a database. Like `Parser`, it fails fast with `runParserAsync`, and collects every error with
+ * `runParserAllAsync` if it has an accumulating mode.
+ */
+export type AsyncParser<R, E, O = unknown> = {
+  runParserAsync: (o: O) => ParseAsyncResult<E, R>;
+  runParserAllAsync?: (o: O) => ParseAllAsyncResult<E, R>;
+};
+export type AsyncParserReturnType<P> = P extends AsyncParser<infer R, infer _, infer _> ? R : ParserReturnType<P>;
+export type AsyncParserErrorType<P> = P extends AsyncParser<infer _, infer E, infer _> ? E : ParserErrorType<P>;
+
+declare module "fp-ts/lib/HKT" {
+  interface URItoKind3<R, E, A> {
+    AsyncParser: AsyncParser<A, E, R>;
+  }
+}
+
+/**
+ * Run an async parser, resolving to the first error or to the result.
+ */
+export function runParserAsync<R, E, I>(parser: AsyncParser<R, E, I>, input: I): Promise<Either<E, R>> {
+  return parser.runParserAsync(input)();
+}
+
+/**
+ * Like `runParserAsync`, but keep going after the first failure, collecting every error along with the
+ * path to the value that caused it.
+ */
+export function runParserAllAsync<R, E, I>(
+  parser: AsyncParser<R, E, I>,
+  input: I
+): Promise<Either<NonEmptyArray<PathError<E>>, R>> {
+  return allAsync(parser, input)();
+}
+
+const allAsync = <R, E, I>(parser: AsyncParser<R, E, I>, input: I): ParseAllAsyncResult<E, R> =>
+  parser.runParserAllAsync !== undefined
+    ? parser.runParserAllAsync(input)
+    : TE.mapLeft((error: E): NonEmptyArray<PathError<E>> => [{ path: [], error }])(parser.runParserAsync(input));
+
+const under = <E, R>(segment: string | number, result: ParseAllAsyncResult<E, R>): ParseAllAsyncResult<E, R> =>
+  TE.mapLeft((errors: NonEmptyArray<PathError<E>>) =>
+    errors.map(({ path, error }) => ({ path: [segment, ...path], error }))
+  )(result) as ParseAllAsyncResult<E, R>;
+
+const isAsync = <R, E, I>(parser: Parser<R, E, I> | AsyncParser<R, E, I>): parser is AsyncParser<R, E, I> =>
+  "runParserAsync" in parser;
+
+/**
+ * Run `tasks` with at most `concurrency` of them pending at a time. When `stop` is true of a result, the
+ * tasks that have not started yet are skipped, and their results are left out.
+ */
+const runLimited = <A>(
+  tasks: Array<Task<A>>,
+  concurrency: number,
+  stop: (a: A) => boolean
+): Promise<Array<A | undefined>> => {
+  const results: Array<A | undefined> = tasks.map(() => undefined);
+  let next = 0;
+  let stopped = false;
+  const worker = (): Promise<void> => {
+    if (stopped || next >= tasks.length) {
+      return Promise.resolve();
+    }
+    const index = next++;
+    return tasks[index]().then(result => {
+      results[index] = result;
+      stopped = stopped || stop(result);
+      return worker();
+    });
+  };
+  const workers: Array<Promise<void>> = [];
+  for (let i = 0; i < Math.min(Math.max(concurrency, 1), tasks.length); ++i) {
+    workers.push(worker());
+  }
+  return Promise.all(workers).then(() => results);
+};
+
+export interface AsyncOptions {
+  /** The most checks to run at the same time, defaults to running all of them at once. */
+  concurrency?: number;
+}
+
+export namespace async {
+  export const URI = "AsyncParser" as const;
+  export type URI = typeof URI;
+
+  /**
+   * Create an async parser from a function. If `parserAll` is not given, the accumulating mode of the
+   * parser reports the single error of `parser` at the current path.
+   */
+  export const from = <R, E, O>(
+    parser: (o: O) => ParseAsyncResult<E, R>,
+    parserAll?: (o: O) => ParseAllAsyncResult<E, R>
+  ): AsyncParser<R, E, O> => ({ runParserAsync: parser, runParserAllAsync: parserAll });
+
+  /**
+   * Lift a parser into an async parser that resolves immediately, so that it can be combined with async ones.
+   * Async parsers are returned as they are.
+   */
+  export function fromParser<R, E, I>(parser: Parser<R, E, I> | AsyncParser<R, E, I>): AsyncParser<R, E, I> {
+    if (isAsync(parser)) {
+      return parser;
+    }
+    return from(
+      o => TE.fromEither(parser.runParser(o)),
+      o => TE.fromEither(runParserAll(parser, o))
+    );
+  }
+
+  /**
+   * Create an async parser that checks its input with `check`, failing with the error it resolves to, if any.
+   * Rejected promises are not caught.
+   */
+  export const fromPromise = <E, I>(check: (o: I) => Promise<E | undefined>): AsyncParser<I, E, I> =>
+    from(o => () => check(o).then(error => (error === undefined ? right(o) : left(error))));
+
+  export function succeed<R, B>(result: R): AsyncParser<R, never, B> {
+    return of(result);
+  }
+
+  export function fail<E, B>(error: E): AsyncParser<never, E, B> {
+    return from(_ => TE.left(error));
+  }
+
+  const asyncFunctor = {
+    URI,
+    map: <A, E, B, C>(v: AsyncParser<A, E, C>, f: (a: A) => B): AsyncParser<B, E, C> =>
+      from(
+        (o: C) => TE.map(f)(v.runParserAsync(o)),
+        (o: C) => TE.map(f)(allAsync(v, o))
+      )
+  } as const;
+
+  const asyncApplicative = {
+    ...asyncFunctor,
+    of: <A, E, C>(a: A): AsyncParser<A, E, C> => from((_: C) => TE.right(a)),
+    ap: <A, B, E, C>(fab: AsyncParser<(a: A) => B, E, C>, a: AsyncParser<A, E, C>): AsyncParser<B, E, C> =>
+      from(
+        (o: C) => TE.taskEither.ap(fab.runParserAsync(o), a.runParserAsync(o)),
+        (o: C) => () =>
+          Promise.all([allAsync(fab, o)(), allAsync(a, o)()]).then(([fres, ares]) => {
+            if (isLeft(fres)) {
+              return isLeft(ares) ? left([...fres.left, ...ares.left] as NonEmptyArray<PathError<E>>) : fres;
+            }
+            return isLeft(ares) ? ares : right(fres.right(ares.right));
+          })
+      )
+  } as const;
+
+  const asyncMonad = {
+    ...asyncApplicative,
+    chain: <A, B, E, C>(fa: AsyncParser<A, E, C>, afb: (a: A) => AsyncParser<B, E, C>): AsyncParser<B, E, C> =>
+      from(
+        (o: C) => TE.chain((a: A) => afb(a).runParserAsync(o))(fa.runParserAsync(o)),
+        (o: C) => TE.chain((a: A) => allAsync(afb(a), o))(allAsync(fa, o))
+      )
+  } as const;
+
+  export const mapError = <A, E, R, D>(parser: AsyncParser<A, E, R>, ed: (e: E) => D): AsyncParser<A, D, R> =>
+    from(
+      o => TE.mapLeft(ed)(parser.runParserAsync(o)),
+      o =>
+        TE.mapLeft(
+          (errors: NonEmptyArray<PathError<E>>) =>
+            errors.map(({ path, error }) => ({ path, error: ed(error) })) as NonEmptyArray<PathError<D>>
+        )(allAsync(parser, o))
+    );
+
+  export const parser = {
+    ...asyncMonad,
+    mapError
+  } as const;
+
+  export const map = asyncMonad.map;
+  export const of = asyncMonad.of;
+  export const ap = asyncMonad.ap;
+  export const chain = asyncMonad.chain;
+
+  /**
+   * Like `compose`, where either parser may be async.
+   */
+  export const compose = <A, B, C, E, D>(
+    vb: Parser<B, E, A> | AsyncParser<B, E, A>,
+    vc: Parser<C, D, B> | AsyncParser<C, D, B>
+  ): AsyncParser<C, E | D, A> =>
+    chain(
+      fromParser<B, E | D, A>(vb),
+      (b: B): AsyncParser<C, E | D, A> =>
+        from(
+          (_: A) => fromParser(vc).runParserAsync(b),
+          (_: A) => allAsync(fromParser(vc), b)
+        )
+    );
+
+  export namespace field {
+    const atField = <R, E>(field: string | number, parser: AsyncParser<R, E>, o: object) =>
+      from<R, syncField.FieldError<E>, unknown>(
+        () =>
+          TE.mapLeft((cause: E): syncField.FieldError<E> => ({ _tag: "FieldMisMatch", field, value: o, cause }))(
+            parser.runParserAsync((o as any)[field])
+          ),
+        () => under(field, allAsync(parser, (o as any)[field]))
+      );
+
+    /**
+     * Like `field.optional`, with a parser that may be async.
+     */
+    export function optional<R, E>(
+      field: string | number,
+      parser: Parser<R, E> | AsyncParser<R, E>
+    ): AsyncParser<R | undefined, syncField.FieldError<E>, unknown> {
+      return chain(
+        fromParser<object, syncField.FieldError<E>, unknown>(thing.is.object),
+        (o: object): AsyncParser<R | undefined, syncField.FieldError<E>> =>
+          field in o ? atField(field, fromParser(parser), o) : succeed(undefined)
+      );
+    }
+
+    /**
+     * Like `field.required`, with a parser that may be async.
+     */
+    export function required<R, E>(
+      field: string | number,
+      parser: Parser<R, E> | AsyncParser<R, E>
+    ): AsyncParser<R, syncField.FieldError<E> | syncField.FieldParserError, unknown> {
+      type Error = syncField.FieldError<E> | syncField.FieldParserError;
+      return chain(
+        fromParser<object, Error, unknown>(thing.is.object),
+        (o: object): AsyncParser<R, Error> => {
+          if (field in o) {
+            return atField(field, fromParser(parser), o);
+          }
+          const error: FieldDoesNotExistError = { _tag: "FieldDoesNotExistOn", field, value: o };
+          return from(
+            () => TE.left(error),
+            () => TE.left([{ path: [field], error }])
+          );
+        }
+      );
+    }
+  }
+
+  export namespace object {
+    export type Spec = Record<string, Parser<unknown, unknown, unknown> | AsyncParser<unknown, unknown, unknown>>;
+    export type SpecReturnType<S extends Spec> = { [K in keyof S]: AsyncParserReturnType<S[K]> };
+    export type SpecErrorType<S extends Spec> = AsyncParserErrorType<S[keyof S]>;
+
+    /**
+     * Like `object.of`, where the parsers of `spec` may be async. The parsers of the fields run at the
+     * same time, up to `options.concurrency` of them; in the fail-fast mode, no more of them are started
+     * once one has failed, and the error of the first field in `spec` that failed is returned.
+     */
+    export function of<S extends Spec>(
+      spec: S,
+      options: AsyncOptions = {}
+    ): AsyncParser<SpecReturnType<S>, SpecErrorType<S> | thing.is.TypeMismatchError, unknown> {
+      type Error = SpecErrorType<S> | thing.is.TypeMismatchError;
+      const keys = Object.keys(spec);
+      const parsers = keys.map(key => fromParser(spec[key] as AsyncParser<unknown, Error>));
+      const concurrency = options.concurrency === undefined ? keys.length : options.concurrency;
+      const assemble = (values: Array<unknown>) =>
+        keys.reduce((result, key, index) => ({ ...result, [key]: values[index] }), {}) as SpecReturnType<S>;
+      return chain(
+        fromParser<object, Error, unknown>(thing.is.object),
+        (o: object): AsyncParser<SpecReturnType<S>, Error> =>
+          from(
+            () => () =>
+              runLimited(
+                parsers.map(parser => parser.runParserAsync(o)),
+                concurrency,
+                isLeft
+              ).then(results => collect(results, assemble)),
+            () => () =>
+              runLimited(
+                parsers.map(parser => allAsync(parser, o)),
+                concurrency,
+                () => false
+              ).then(results => collectAll(results, assemble))
+          )
+      );
+    }
+  }
+
+  export namespace array {
+    /**
+     * Like `array.of`, with an element parser that may be async. The elements are parsed at the same time,
+     * up to `options.concurrency` of them; in the fail-fast mode, no more of them are started once one has
+     * failed, and the error of the first element that failed is returned.
+     */
+    export function of<Value, Error, Input>(
+      parser: Parser<Value, Error> | AsyncParser<Value, Error>,
+      options: AsyncOptions = {}
+    ): AsyncParser<Array<Value>, syncArray.ArrayParserError<Error>, Input> {
+      const element = fromParser(parser);
+      return from(
+        o => () => {
+          if (!Array.isArray(o)) {
+            return Promise.resolve(left({ _tag: "NotAnArray", value: o }));
+          }
+          const concurrency = options.concurrency === undefined ? o.length : options.concurrency;
+          return runLimited(
+            o.map((each, index) =>
+              TE.mapLeft(
+                (cause: Error): syncArray.ArrayParserError<Error> => ({
+                  _tag: "ElementMisMatch",
+                  index,
+                  value: o,
+                  cause
+                })
+              )(element.runParserAsync(each))
+            ),
+            concurrency,
+            isLeft
+          ).then(results => collect(results, values => values as Array<Value>));
+        },
+        o => () => {
+          if (!Array.isArray(o)) {
+            return Promise.resolve(left([{ path: [], error: { _tag: "NotAnArray", value: o } }]));
+          }
+          const concurrency = options.concurrency === undefined ? o.length : options.concurrency;
+          return runLimited(
+            o.map((each, index) => under(index, allAsync(element, each))),
+            concurrency,
+            () => false
+          ).then(results => collectAll(results, values => values as Array<Value>));
+        }
+      );
+    }
+  }
+}
+
+/**
+ * The first error among `results` in order, or the values of all of them.
+ */
+function collect<E, A, R>(results: Array<Either<E, A> | undefined>, f: (values: Array<A>) => R): Either<E, R> {
+  const values: Array<A> = [];
+  for (const result of results) {
+    if (result !== undefined && isLeft(result)) {
+      return result;
+    }
+    values.push((result as E.Right<A>).right);
+  }
+  return right(f(values));
+}
+
+/**
+ * All the errors among `results`, or the values of all of them.
+ */
+function collectAll<E, A, R>(
+  results: Array<Either<NonEmptyArray<PathError<E>>, A> | undefined>,
+  f: (values: Array<A>) => R
+): Either<NonEmptyArray<PathError<E>>, R> {
+  const errors: Array<PathError<E>> = [];
+  const values: Array<A> = [];
+  results.forEach(result => {
+    if (result !== undefined && isLeft(result)) {
+      errors.push(...result.left);
+    } else if (result !== undefined) {
+      values.push(result.right);
+    }
+  });
+  return errors.length > 0 ? left(errors as NonEmptyArray<PathError<E>>) : right(f(values));
+}
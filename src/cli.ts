@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+import { resolve } from "path";
+import { toDeclarations } from "./declarations";
+import { AnyParser } from "./meta";
+
+const usage = "usage: ununknown-declare <module> <export>[:<TypeName>]...";
+
+const isParser = (value: unknown): value is AnyParser =>
+  typeof value === "object" && value !== null && typeof (value as AnyParser).runParser === "function";
+
+/**
+ * Generate the declarations for parsers exported by the module at `modulePath`, given as `export` or
+ * `export:TypeName`. Exports are declared under their name with its first letter in upper case by default.
+ *
+ * @param load loads a module by its absolute path, defaults to `require`
+ */
+export function declare([modulePath, ...exports]: Array<string>, load: (path: string) => unknown = require): string {
+  if (modulePath === undefined || exports.length === 0) {
+    throw new Error(usage);
+  }
+  const loaded = load(resolve(modulePath)) as Record<string, unknown>;
+  const parsers: Record<string, AnyParser> = {};
+  exports.forEach(argument => {
+    const [name, typeName = name.charAt(0).toUpperCase() + name.slice(1)] = argument.split(":");
+    const parser = loaded[name];
+    if (!isParser(parser)) {
+      throw new Error(`${modulePath} does not export a parser named ${name}`);
+    }
+    parsers[typeName] = parser;
+  });
+  return toDeclarations(parsers);
+}
+
+if (require.main === module) {
+  try {
+    process.stdout.write(declare(process.argv.slice(2)));
+  } catch (e) {
+    process.stderr.write(`${e.message}\n`);
+    process.exitCode = 1;
+  }
+}
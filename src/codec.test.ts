@@ -0,0 +1,101 @@
+import {
+  codec,
+  Codec,
+  isFailure,
+  isSuccess,
+  map,
+  number,
+  report,
+  runParser,
+  runParserAll,
+  string,
+  thing
+} from "./index";
+
+/**
+ * Check both round trip laws: decoding an encoded value gives back the value, and encoding a decoded
+ * (canonical) input gives back the input.
+ */
+const roundTrips = <A, O, E>(c: Codec<A, O, E>, value: A, encoded: O) => {
+  expect(c.encode(value)).toEqual(encoded);
+  const decoded = runParser(c, encoded);
+  expect(isSuccess(decoded) && decoded.right).toEqual(value);
+  expect(isSuccess(decoded) && c.encode(decoded.right)).toEqual(encoded);
+};
+
+interface Event {
+  name: string;
+  at: Date;
+  attendees: bigint | undefined;
+  subEvents: Array<Event>;
+}
+
+const eventCodec: Codec<Event, unknown, unknown> = codec.recursive(() =>
+  codec.object.of({
+    name: codec.field.required("title", codec.fromParser(thing.is.string)),
+    at: codec.field.required("at", codec.date),
+    attendees: codec.field.optional("attendees", codec.bigint),
+    subEvents: codec.field.required("sub_events", codec.array.of(eventCodec))
+  })
+);
+
+describe("codecs", () => {
+  test("primitives", () => {
+    roundTrips(codec.date, new Date(Date.UTC(2020, 1, 29)), "2020-02-29T00:00:00.000Z");
+    roundTrips(codec.bigint, BigInt("-12345678901234567890"), "-12345678901234567890");
+    roundTrips(codec.fromParser(number.range.inclusive(0, 1)), 0.5, 0.5);
+    const result = runParser(codec.bigint, "1.5");
+    expect(report.text(isFailure(result) ? result.left : [])).toEqual('at root: "1.5" is not an integer');
+    expect(isFailure(runParser(codec.date, "yesterday"))).toBeTruthy();
+  });
+
+  test("objects, arrays and recursion", () => {
+    const event: Event = {
+      name: "launch",
+      at: new Date(Date.UTC(2021, 0, 1, 12)),
+      attendees: BigInt(3),
+      subEvents: [{ name: "talk", at: new Date(Date.UTC(2021, 0, 1, 13)), attendees: undefined, subEvents: [] }]
+    };
+    roundTrips(eventCodec, event, {
+      title: "launch",
+      at: "2021-01-01T12:00:00.000Z",
+      attendees: "3",
+      sub_events: [{ title: "talk", at: "2021-01-01T13:00:00.000Z", sub_events: [] }]
+    });
+  });
+
+  test("encoded types follow the fields", () => {
+    const point = codec.object.of({
+      x: codec.field.required("x", codec.fromParser(thing.is.number)),
+      label: codec.field.optional("name", codec.fromParser(thing.is.string))
+    });
+    const encoded: { x: number; name?: string } = point.encode({ x: 1, label: undefined });
+    expect(encoded).toEqual({ x: 1 });
+  });
+
+  test("unions encode with the matching alternative", () => {
+    const dateOrCount = codec.or(codec.date, codec.bigint, (v): v is Date => v instanceof Date);
+    roundTrips(dateOrCount, new Date(0), "1970-01-01T00:00:00.000Z");
+    roundTrips(dateOrCount, BigInt(7), "7");
+  });
+
+  test("compose", () => {
+    const amount = codec.compose(
+      codec.fromParser(string.pattern(/^\d+\.\d\d$/)),
+      codec.make(
+        map(thing.is.string, s => parseFloat(s)),
+        (n: number) => n.toFixed(2)
+      )
+    );
+    roundTrips(amount, 3.5, "3.50");
+    expect(isFailure(runParser(amount, "3.5"))).toBeTruthy();
+  });
+
+  test("codecs are parsers", () => {
+    const result = runParserAll(eventCodec, { title: 1, at: "never", sub_events: [] });
+    expect(report.text(isFailure(result) ? result.left : []).split("\n")).toEqual([
+      "at .title: expected string, got number 1",
+      'at .at: "never" is not an ISO 8601 date'
+    ]);
+  });
+});
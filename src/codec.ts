@@ -0,0 +1,171 @@
+import { left, right } from "fp-ts/lib/Either";
+import { Lazy } from "fp-ts/lib/function";
+import { NoAlternativeMatchedError, PredicateMismatchError } from "./errors";
+import {
+  array as parserArray,
+  chain,
+  compose as parserCompose,
+  field as parserField,
+  from,
+  object as parserObject,
+  or as parserOr,
+  Parser,
+  recursive as parserRecursive,
+  thing
+} from "./index";
+import { isoDatePattern } from "./util";
+
+/**
+ * A parser that can also turn the values it parses back into their encoded form, such that decoding an
+ * encoded value gives back the value it was encoded from.
+ *
+ * @typeParam A the decoded value
+ * @typeParam O the encoded value
+ * @typeParam E the errors of decoding
+ * @typeParam I the input of decoding
+ */
+export type Codec<A, O, E, I = unknown> = Parser<A, E, I> & { encode: (a: A) => O };
+
+export type CodecEncodedType<C> = C extends { encode: (a: any) => infer O } ? O : never;
+
+type UnionToIntersection<U> = (U extends unknown ? (u: U) => void : never) extends (i: infer I) => void ? I : never;
+
+export namespace codec {
+  /**
+   * Pair a parser with the function that reverses it.
+   */
+  export const make = <A, O, E, I>(parser: Parser<A, E, I>, encode: (a: A) => O): Codec<A, O, E, I> => ({
+    ...parser,
+    encode
+  });
+
+  /**
+   * Lift a parser into a codec that encodes values as they are, for parsers that only check their input.
+   */
+  export const fromParser = <A, E, I>(parser: Parser<A, E, I>): Codec<A, A, E, I> => make(parser, a => a);
+
+  /**
+   * Decode with `first` then `second`, and encode with `second` then `first`.
+   */
+  export const compose = <A, B, O, E, D, I>(
+    first: Codec<B, O, E, I>,
+    second: Codec<A, B, D, B>
+  ): Codec<A, O, E | D, I> => make(parserCompose(first, second), a => first.encode(second.encode(a)));
+
+  /**
+   * Encode values with whichever of `fst` or `snd` parses them, as told by `isFst`.
+   */
+  export function or<A, B, OA, OB, E, D, I>(
+    fst: Codec<A, OA, E, I>,
+    snd: Codec<B, OB, D, I>,
+    isFst: (value: A | B) => value is A
+  ): Codec<A | B, OA | OB, NoAlternativeMatchedError<E | D>, I> {
+    return make(parserOr(fst, snd), (value): OA | OB => (isFst(value) ? fst.encode(value) : snd.encode(value as B)));
+  }
+
+  /**
+   * Like `recursive`, for codecs that reference themselves.
+   */
+  export function recursive<A, O, E, I>(body: Lazy<Codec<A, O, E, I>>, name?: string): Codec<A, O, E, I> {
+    return make(parserRecursive(body, name), a => body().encode(a));
+  }
+
+  /**
+   * A `Date` encoded as an ISO 8601 string.
+   */
+  export const date: Codec<Date, string, thing.is.TypeMismatchError | PredicateMismatchError> = make(
+    chain(thing.is.string, (s: string) =>
+      from<Date, thing.is.TypeMismatchError | PredicateMismatchError, unknown>(() => {
+        const date = new Date(s);
+        return !isoDatePattern.test(s) || isNaN(date.getTime())
+          ? left({ _tag: "PredicateMismatch", value: s, customMessage: `${JSON.stringify(s)} is not an ISO 8601 date` })
+          : right(date);
+      })
+    ),
+    d => d.toISOString()
+  );
+
+  /**
+   * A `bigint` encoded as a string of decimal digits, since JSON has no representation for them.
+   */
+  export const bigint: Codec<bigint, string, thing.is.TypeMismatchError | PredicateMismatchError> = make(
+    chain(thing.is.string, (s: string) =>
+      from<bigint, thing.is.TypeMismatchError | PredicateMismatchError, unknown>(() =>
+        /^-?\d+$/.test(s)
+          ? right(BigInt(s))
+          : left({ _tag: "PredicateMismatch", value: s, customMessage: `${JSON.stringify(s)} is not an integer` })
+      )
+    ),
+    n => n.toString()
+  );
+
+  export namespace field {
+    /**
+     * Like `field.optional`, encoding the value under `name`, or leaving the field out if it is `undefined`.
+     */
+    export function optional<K extends string | number, A, O, E>(
+      name: K,
+      codec: Codec<A, O, E>
+    ): Codec<A | undefined, { [P in K]?: O }, parserField.FieldError<E>> {
+      return make(parserField.optional(name, codec), a =>
+        a === undefined ? {} : ({ [name]: codec.encode(a) } as { [P in K]?: O })
+      );
+    }
+
+    /**
+     * Like `field.required`, encoding the value under `name`.
+     */
+    export function required<K extends string | number, A, O, E>(
+      name: K,
+      codec: Codec<A, O, E>
+    ): Codec<A, { [P in K]: O }, parserField.FieldError<E> | parserField.FieldParserError> {
+      return make(parserField.required(name, codec), a => ({ [name]: codec.encode(a) } as { [P in K]: O }));
+    }
+  }
+
+  export namespace object {
+    /**
+     * The codecs of the keys of an object. Any codec can be used, since each is only given the value of its key.
+     */
+    export type Spec = Record<string, Parser<unknown, unknown, unknown> & { encode: (a: never) => unknown }>;
+
+    /**
+     * The encoded object, made of the fields each codec of the spec encodes to.
+     */
+    export type SpecEncodedType<S extends Spec> = UnionToIntersection<
+      { [K in keyof S]: CodecEncodedType<S[K]> }[keyof S]
+    >;
+
+    /**
+     * Like `object.of`, encoding each key of the value with its codec in `spec` and merging the results.
+     *
+     * @param spec the codec for each key of the resulting object, usually built with `codec.field.required`
+     * or `codec.field.optional`
+     */
+    export function of<S extends Spec>(
+      spec: S
+    ): Codec<
+      parserObject.SpecReturnType<S>,
+      SpecEncodedType<S>,
+      parserObject.SpecErrorType<S> | thing.is.TypeMismatchError
+    > {
+      return make(
+        parserObject.of(spec),
+        value =>
+          Object.keys(spec).reduce(
+            (encoded, key) => ({ ...encoded, ...(spec[key].encode as (a: unknown) => object)(value[key]) }),
+            {}
+          ) as SpecEncodedType<S>
+      );
+    }
+  }
+
+  export namespace array {
+    /**
+     * Like `array.of`, encoding each element with `codec`.
+     */
+    export function of<A, O, E>(codec: Codec<A, O, E>): Codec<Array<A>, Array<O>, parserArray.ArrayParserError<E>> {
+      return make(parserArray.of<A, E, unknown>(codec), values => values.map(value => codec.encode(value)));
+    }
+  }
+}
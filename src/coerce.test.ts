@@ -0,0 +1,107 @@
+import {
+  bigint,
+  coerce,
+  compose,
+  config,
+  field,
+  isFailure,
+  isSuccess,
+  number,
+  object,
+  Parser,
+  ParseError,
+  report,
+  runParser,
+  string
+} from "./index";
+
+const parsed = <R, E>(parser: Parser<R, E>, input: unknown): R | undefined => {
+  const result = runParser(parser, input);
+  return isSuccess(result) ? result.right : undefined;
+};
+
+const message = <R, E>(parser: Parser<R, E>, input: unknown): string => {
+  const result = runParser(parser, input);
+  return isFailure(result) ? report.text(result.left) : "";
+};
+
+describe("coerce", () => {
+  test("numbers", () => {
+    expect(parsed(coerce.number, "42")).toEqual(42);
+    expect(parsed(coerce.number, "-1.5e3")).toEqual(-1500);
+    expect(parsed(coerce.number, 7)).toEqual(7);
+    expect(message(coerce.number, "")).toEqual('at root: expected a number, got string ""');
+    expect(message(coerce.number, "12px")).toEqual('at root: expected a number, got string "12px"');
+    expect(parsed(coerce.integer, "12")).toEqual(12);
+    expect(parsed(coerce.integer, "1.5")).toBeUndefined();
+    expect(parsed(coerce.integer, 1.5)).toBeUndefined();
+  });
+
+  test("compose with refinements", () => {
+    const port = compose(coerce.integer, number.range.inclusive(1, 65535));
+    expect(parsed(port, "8080")).toEqual(8080);
+    expect(message(port, "0")).toEqual("at root: 0 is not in range [1,65535]");
+  });
+
+  test("booleans", () => {
+    expect(["true", "1", "yes", "on", true].every(b => parsed(coerce.boolean, b) === true)).toBeTruthy();
+    expect(["false", "0", "no", "off", false].every(b => parsed(coerce.boolean, b) === false)).toBeTruthy();
+    expect(message(coerce.boolean, "maybe")).toEqual('at root: expected a boolean, got string "maybe"');
+  });
+
+  test("bigints and dates", () => {
+    expect(parsed(coerce.bigint, "12345678901234567890")).toEqual(BigInt("12345678901234567890"));
+    expect(parsed(coerce.bigint, 3)).toEqual(BigInt(3));
+    expect(parsed(coerce.bigint, 0.5)).toBeUndefined();
+    const id = compose(coerce.bigint, bigint.uint64);
+    expect(parsed(id, "18446744073709551615")).toEqual(BigInt("18446744073709551615"));
+    expect(message(id, "-1")).toEqual("at root: expected a bigint in [0,18446744073709551615], got bigint -1n");
+    expect(parsed(coerce.date, "2020-02-29")).toEqual(new Date(Date.UTC(2020, 1, 29)));
+    expect(parsed(coerce.date, 0)).toEqual(new Date(0));
+    expect(parsed(coerce.date, new Date(0))).toEqual(new Date(0));
+    expect(parsed(coerce.date, new Date(NaN))).toBeUndefined();
+    expect(parsed(coerce.date, "2020-13-45")).toBeUndefined();
+    expect(parsed(coerce.date, "yesterday")).toBeUndefined();
+  });
+
+  test("json and csv", () => {
+    const point = object.of({ x: field.required("x", coerce.number) });
+    expect(parsed(coerce.json(point), '{"x": 1}')).toEqual({ x: 1 });
+    expect(message(coerce.json(point), "{x: 1}")).toMatch(/^at root: invalid JSON: /);
+    expect(parsed(coerce.csv(coerce.integer), "1, 2,3")).toEqual([1, 2, 3]);
+    expect(parsed(coerce.csv(coerce.integer), ["4", "5"])).toEqual([4, 5]);
+    expect(parsed(coerce.csv(string.pattern(/^\w+$/)), "")).toEqual([]);
+    expect(message(coerce.csv(coerce.integer), "1,a")).toEqual('at [1]: expected an integer, got string "a"');
+  });
+});
+
+describe("config", () => {
+  const parser = object.of({
+    port: field.required("PORT", compose(coerce.integer, number.range.inclusive(1, 65535))),
+    debug: field.optional("DEBUG", coerce.boolean),
+    origins: field.required("ALLOWED_ORIGINS", coerce.csv(string.pattern(/^https:/)))
+  });
+
+  test("parses the environment", () => {
+    expect(config.fromEnv(parser, { PORT: "80", ALLOWED_ORIGINS: "https://a.com", HOME: "/root" })).toEqual({
+      port: 80,
+      debug: undefined,
+      origins: ["https://a.com"]
+    });
+  });
+
+  test("reports every missing or malformed variable", () => {
+    let thrown: unknown;
+    try {
+      config.fromEnv(parser, { PORT: "http", DEBUG: "sure" });
+    } catch (e) {
+      thrown = e;
+    }
+    expect(thrown).toBeInstanceOf(ParseError);
+    expect((thrown as ParseError).message.split("\n")).toEqual([
+      'at .PORT: expected an integer, got string "http"',
+      'at .DEBUG: expected a boolean, got string "sure"',
+      "at .ALLOWED_ORIGINS: missing required field ALLOWED_ORIGINS"
+    ]);
+  });
+});
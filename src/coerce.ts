@@ -0,0 +1,155 @@
+import { NotOfTypeError, PredicateMismatchError } from "./errors";
+import {
+  array,
+  chain,
+  compose,
+  fail,
+  isFailure,
+  map,
+  mapError,
+  number as parserNumber,
+  object,
+  oneOf,
+  Parser,
+  runParserAll,
+  string,
+  succeed,
+  thing
+} from "./index";
+import { ParseError, showValue } from "./report";
+import { isoDatePattern } from "./util";
+
+/**
+ * Accept the inputs accepted by one of `accepted`, converting them with `convert`. Other inputs fail with a
+ * single message naming what was `expected`, rather than with the error of each alternative.
+ */
+const coercing = <A, R>(
+  accepted: Array<Parser<A, unknown>>,
+  convert: (a: A) => R,
+  expected: string
+): Parser<R, PredicateMismatchError> =>
+  map(
+    mapError(
+      oneOf(accepted),
+      (e): PredicateMismatchError => ({
+        _tag: "PredicateMismatch",
+        value: e.value,
+        customMessage: `expected ${expected}, got ${showValue(e.value)}`
+      })
+    ),
+    convert
+  );
+
+const trueStrings = ["true", "1", "yes", "on"];
+
+const jsonText = chain(thing.is.string as Parser<string, NotOfTypeError | PredicateMismatchError>, s => {
+  try {
+    return succeed(JSON.parse(s) as unknown);
+  } catch (e) {
+    const error: PredicateMismatchError = {
+      _tag: "PredicateMismatch",
+      value: s,
+      customMessage: `invalid JSON: ${e.message}`
+    };
+    return fail(error);
+  }
+});
+
+/**
+ * Parsers that also accept the string representations of values, as found in URL query parameters, form data
+ * and environment variables. Each of them accepts values of its type as they are.
+ */
+export namespace coerce {
+  export const number: Parser<number, PredicateMismatchError> = coercing<number | string, number>(
+    [thing.is.number, string.pattern(/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/)],
+    n => Number(n),
+    "a number"
+  );
+
+  export const integer: Parser<number, PredicateMismatchError> = coercing<number | string, number>(
+    [
+      parserNumber.predicate(
+        n => Number.isInteger(n),
+        n => `${n} is not an integer`
+      ),
+      string.pattern(/^[-+]?\d+$/)
+    ],
+    n => Number(n),
+    "an integer"
+  );
+
+  /**
+   * Accepts `"true"`, `"1"`, `"yes"` and `"on"` (as sent by checkboxes) for `true`, and `"false"`, `"0"`,
+   * `"no"` and `"off"` for `false`.
+   */
+  export const boolean: Parser<boolean, PredicateMismatchError> = coercing<boolean | string, boolean>(
+    [thing.is.boolean, string.pattern(/^(true|false|1|0|yes|no|on|off)$/)],
+    b => (typeof b === "boolean" ? b : trueStrings.indexOf(b) !== -1),
+    "a boolean"
+  );
+
+  /**
+   * Accepts integer strings and safe integers, as well as bigints.
+   */
+  export const bigint: Parser<bigint, PredicateMismatchError> = coercing<bigint | number | string, bigint>(
+    [thing.is.bigint, parserNumber.predicate(n => Number.isSafeInteger(n)), string.pattern(/^[-+]?\d+$/)],
+    n => BigInt(n),
+    "an integer"
+  );
+
+  /**
+   * Accepts ISO 8601 strings and timestamps in milliseconds, as well as valid `Date`s.
+   */
+  export const date: Parser<Date, PredicateMismatchError> = coercing<number | string, Date>(
+    [
+      map(object.predicate(o => o instanceof Date && !isNaN(o.getTime())) as Parser<Date, unknown>, d => d.getTime()),
+      parserNumber.predicate(n => isFinite(n)),
+      compose(
+        string.pattern(isoDatePattern),
+        string.predicate(s => !isNaN(Date.parse(s)))
+      )
+    ],
+    d => new Date(d),
+    "a date"
+  );
+
+  /**
+   * Parse a JSON string, then parse the value it holds with `parser`.
+   */
+  export function json<R, E>(parser: Parser<R, E>): Parser<R, NotOfTypeError | PredicateMismatchError | E, unknown> {
+    return compose(jsonText, parser);
+  }
+
+  /**
+   * Split a comma-separated string, then parse each element with `parser`. Arrays (such as repeated query
+   * parameters) are parsed as they are.
+   */
+  export function csv<R, E>(
+    parser: Parser<R, E>
+  ): Parser<Array<R>, PredicateMismatchError | array.ArrayParserError<E>, unknown> {
+    return compose(
+      coercing<Array<unknown> | string, Array<unknown>>(
+        [thing.is.array as Parser<Array<unknown>, unknown>, thing.is.string],
+        list => (Array.isArray(list) ? list : list === "" ? [] : list.split(",").map(each => each.trim())),
+        "a comma-separated list"
+      ),
+      array.of(parser)
+    );
+  }
+}
+
+export namespace config {
+  /**
+   * Parse the environment variables with `parser`, usually an `object.of` with fields parsed by `coerce`.
+   *
+   * @param env the variables to parse, defaults to `process.env`
+   * @throws ParseError listing every missing or malformed variable
+   */
+  export function fromEnv<R, E>(parser: Parser<R, E>, env: Record<string, string | undefined> = process.env): R {
+    const result = runParserAll(parser, env);
+    if (isFailure(result)) {
+      throw new ParseError(result.left);
+    }
+    return result.right;
+  }
+}
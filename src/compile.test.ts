@@ -0,0 +1,132 @@
+import {
+  array,
+  boolean,
+  compile,
+  compose,
+  field,
+  map,
+  mapError,
+  nullable,
+  number,
+  object,
+  or,
+  Parser,
+  recursive,
+  runParser,
+  runParserAll,
+  string,
+  thing,
+  tuple,
+  union
+} from "./index";
+
+interface Tree {
+  value: number;
+  children: Array<Tree>;
+}
+
+const tree: Parser<Tree, unknown> = recursive(() =>
+  object.strict({
+    value: field.required("value", number.range.inclusive(0, 10)),
+    children: field.required("children", array.of(tree))
+  })
+);
+
+const shallow: Parser<Tree, unknown> = recursive(
+  () =>
+    object.of({
+      value: field.required("value", thing.is.number),
+      children: field.required("children", array.of(shallow))
+    }),
+  { maxDepth: 2, detectCycles: true }
+);
+
+const parsers: Record<string, Parser<unknown, unknown>> = {
+  types: object.of({
+    s: field.required("s", thing.is.string),
+    n: field.optional("n", thing.is.number),
+    o: field.optional("o", thing.is.object),
+    b: field.optional("b", boolean.isTrue),
+    a: field.optional("a", thing.is.array)
+  }),
+  renamed: object.passthrough({
+    id: field.required("ID", compose(thing.is.string, string.format.uuid)),
+    tags: field.optional("tags", array.of(nullable(string.nonEmpty)))
+  }),
+  catchall: object.catchall({ kind: field.required("kind", thing.is.equalTo("a")) }, thing.is.number),
+  mapped: array.of(
+    mapError(
+      map(thing.is.string, s => s.length),
+      e => `not a string: ${e._tag}`
+    )
+  ),
+  alternatives: union.tagged("type", {
+    pair: object.of({ pair: field.required("pair", tuple(thing.is.number, or(thing.is.string, thing.is.undef))) })
+  }),
+  field: field.required("x", array.of(thing.is.number)),
+  tree,
+  shallow
+};
+
+const inputs: Array<unknown> = [
+  null,
+  undefined,
+  "string",
+  [],
+  [1, 2],
+  ["a", "bc"],
+  ["a", 1],
+  {},
+  { s: "a" },
+  { s: "a", n: 1, o: null, b: false, a: {} },
+  { s: 1 },
+  { ID: "123e4567-e89b-12d3-a456-426614174000", tags: ["a", null], other: 1 },
+  { ID: "123e4567-e89b-12d3-a456-426614174000", tags: [""] },
+  { ID: "not a uuid" },
+  { kind: "a", x: 1, y: 2 },
+  { kind: "a", x: "1" },
+  { kind: "b" },
+  { type: "pair", pair: [1, "a"] },
+  { type: "pair", pair: [1] },
+  { type: "other" },
+  { x: [1, 2] },
+  { x: [1, "2"] },
+  { value: 1, children: [{ value: 2, children: [] }] },
+  { value: 1, children: [{ value: 11, children: [] }] },
+  { value: 1, children: [{ value: 2, children: [], extra: true }] },
+  { value: 1, children: [{ value: 2, children: [{ value: 3, children: [] }] }] }
+];
+
+describe("compile", () => {
+  Object.keys(parsers).forEach(name =>
+    test(`${name} gives the same results as runParser`, () => {
+      const parser = parsers[name];
+      const compiled = compile(parser);
+      inputs.forEach(input => expect(runParser(compiled, input)).toEqual(runParser(parser, input)));
+    })
+  );
+
+  test("arrays parsed as they are are not copied", () => {
+    const input = [1, 2, 3];
+    const result = runParser(compile(array.of(thing.is.number)), input);
+    expect(result._tag === "Right" && result.right).toBe(input);
+    const lengths = runParser(compile(array.of(map(thing.is.string, s => s.length))), ["a", "bc"]);
+    expect(lengths).toEqual({ _tag: "Right", right: [1, 2] });
+  });
+
+  test("unknown keys named __proto__ do not replace the prototype of the result", () => {
+    const input = JSON.parse('{"kind": "a", "__proto__": {"isAdmin": true}}');
+    const spec = { kind: field.required("kind", thing.is.string) };
+    [object.passthrough(spec), object.catchall(spec, thing.is.object)].forEach(parser => {
+      const result = runParser(compile(parser), input);
+      const parsed: any = result._tag === "Right" && result.right;
+      expect(parsed.isAdmin).toBeUndefined();
+      expect(Object.keys(parsed)).toEqual(["kind", "__proto__"]);
+    });
+  });
+
+  test("keeps the accumulating mode", () => {
+    const input = { value: "1", children: [{ value: 20, children: [] }] };
+    expect(runParserAll(compile(tree), input)).toEqual(runParserAll(tree, input));
+  });
+});
@@ -0,0 +1,224 @@
+import { isLeft, left, right } from "fp-ts/lib/Either";
+import {
+  ElementMismatchError,
+  FieldDoesNotExistError,
+  FieldMismatchError,
+  NotAnArrayError,
+  NotOfTypeError,
+  UnexpectedKeysError
+} from "./errors";
+import { from, Parser, runParserAll, withMeta } from "./index";
+import { AnyParser, fieldMeta, Meta } from "./meta";
+import { defineValue } from "./util";
+
+/**
+ * The failure of a compiled parser. Compiled parsers return their result as it is, so that only failures
+ * allocate.
+ */
+class Failure {
+  constructor(readonly error: unknown) {}
+}
+
+type Compiled = (o: unknown) => unknown;
+
+type FieldMeta = Extract<Meta, { _tag: "Field" }>;
+type StructMeta = Extract<Meta, { _tag: "Struct" }>;
+
+const isObject = (o: unknown): o is object => typeof o === "object" && o !== null;
+
+const notAnObject = (o: unknown): Failure => {
+  const error: NotOfTypeError = { _tag: "NotOfType", type: "object", value: o };
+  return new Failure(error);
+};
+
+class Compiler {
+  private readonly compiled = new Map<AnyParser, Compiled>();
+
+  /**
+   * Run `parser` as it is, for the parsers whose description does not determine what they do.
+   */
+  private interpreted(parser: AnyParser): Compiled {
+    const run = parser.runParser;
+    return o => {
+      const result = run(o);
+      return isLeft(result) ? new Failure(result.left) : result.right;
+    };
+  }
+
+  /**
+   * Parse a field of an input already known to be an object.
+   */
+  private field(meta: FieldMeta): (o: object) => unknown {
+    const { field, optional } = meta;
+    const parser = this.compile(meta.parser);
+    return o => {
+      if (!(field in o)) {
+        if (optional) {
+          return undefined;
+        }
+        const error: FieldDoesNotExistError = { _tag: "FieldDoesNotExistOn", field, value: o };
+        return new Failure(error);
+      }
+      const result = parser((o as any)[field]);
+      if (result instanceof Failure) {
+        const error: FieldMismatchError = { _tag: "FieldMisMatch", field, value: o, cause: result.error };
+        return new Failure(error);
+      }
+      return result;
+    };
+  }
+
+  private struct(meta: StructMeta): Compiled {
+    const keys = Object.keys(meta.fields);
+    // fields are parsed without checking the object again for each of them
+    const fields = keys.map((key): ((o: object) => unknown) => {
+      const field = meta.fields[key].meta;
+      return field !== undefined && field._tag === "Field" ? this.field(field) : this.compile(meta.fields[key]);
+    });
+    const listed = keys.map(key => {
+      const field = fieldMeta(meta.fields[key]);
+      return field !== undefined ? String(field.field) : key;
+    });
+    const unknownKeys = meta.unknownKeys;
+    const catchall = unknownKeys._tag === "Catchall" ? this.compile(unknownKeys.parser) : undefined;
+    return o => {
+      if (!isObject(o)) {
+        return notAnObject(o);
+      }
+      const result: Record<string, unknown> = {};
+      for (let i = 0; i < keys.length; ++i) {
+        const each = fields[i](o);
+        if (each instanceof Failure) {
+          return each;
+        }
+        result[keys[i]] = each;
+      }
+      if (unknownKeys._tag === "Strip") {
+        return result;
+      }
+      const extra = Object.keys(o).filter(key => listed.indexOf(key) === -1);
+      if (unknownKeys._tag === "Strict" && extra.length > 0) {
+        const error: UnexpectedKeysError = { _tag: "UnexpectedKeys", keys: extra, value: o };
+        return new Failure(error);
+      }
+      for (const key of extra) {
+        const value = (o as any)[key];
+        if (catchall === undefined) {
+          defineValue(result, key, value);
+          continue;
+        }
+        const each = catchall(value);
+        if (each instanceof Failure) {
+          const error: FieldMismatchError = { _tag: "FieldMisMatch", field: key, value: o, cause: each.error };
+          return new Failure(error);
+        }
+        defineValue(result, key, each);
+      }
+      return result;
+    };
+  }
+
+  /**
+   * Parse each element of an array, returning the array itself rather than a copy when every element is
+   * parsed as it is.
+   */
+  private array(element: AnyParser): Compiled {
+    const parser = this.compile(element);
+    return o => {
+      if (!Array.isArray(o)) {
+        const error: NotAnArrayError = { _tag: "NotAnArray", value: o };
+        return new Failure(error);
+      }
+      let values: Array<unknown> | undefined;
+      for (let index = 0; index < o.length; ++index) {
+        const each = parser(o[index]);
+        if (each instanceof Failure) {
+          const error: ElementMismatchError = { _tag: "ElementMisMatch", index, value: o, cause: each.error };
+          return new Failure(error);
+        }
+        if (values !== undefined) {
+          values.push(each);
+        } else if (each !== o[index]) {
+          values = o.slice(0, index);
+          values.push(each);
+        }
+      }
+      return values === undefined ? o : values;
+    };
+  }
+
+  compile(parser: AnyParser): Compiled {
+    const existing = this.compiled.get(parser);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const meta = parser.meta;
+    if (meta === undefined) {
+      return this.interpreted(parser);
+    }
+    switch (meta._tag) {
+      case "Type":
+        const type = meta.type;
+        return o => {
+          if (typeof o === type) {
+            return o;
+          }
+          const error: NotOfTypeError = { _tag: "NotOfType", type, value: o };
+          return new Failure(error);
+        };
+      case "Object":
+        return o => (isObject(o) ? o : notAnObject(o));
+      case "Struct":
+        return this.struct(meta);
+      case "Field":
+        const field = this.field(meta);
+        return o => (isObject(o) ? field(o) : notAnObject(o));
+      case "Array":
+        // arrays without an element parser are checked by predicates, which are run as they are
+        return meta.element === undefined ? this.interpreted(parser) : this.array(meta.element);
+      case "Compose":
+        const first = this.compile(meta.first);
+        const second = this.compile(meta.second);
+        return o => {
+          const result = first(o);
+          return result instanceof Failure ? result : second(result);
+        };
+      case "Recursive":
+        if (meta.detectCycles || meta.maxDepth !== undefined) {
+          // the guards keep track of the inputs being parsed, which is left to the parser itself
+          return this.interpreted(parser);
+        }
+        let body: Compiled | undefined;
+        const recursive: Compiled = o => body!(o);
+        // references to the parser from its body resolve to the parser being compiled
+        this.compiled.set(parser, recursive);
+        body = this.compile(meta.body());
+        return recursive;
+      default:
+        return this.interpreted(parser);
+    }
+  }
+}
+
+/**
+ * Turn a parser into a specialized parser with identical results, for validation on hot paths. Objects,
+ * fields, arrays, compositions and recursive definitions are parsed directly rather than through `chain`,
+ * objects are checked once rather than once per field, and arrays whose elements are all parsed as they are
+ * are returned as they are rather than copied. Other parsers, such as `predicate`s and `map`s, are run as they
+ * are. The accumulating mode is not specialized.
+ *
+ * Compile a parser once, up front, rather than for every input.
+ */
+export function compile<R, E, I>(parser: Parser<R, E, I>): Parser<R, E, I> {
+  const run = new Compiler().compile(parser);
+  return withMeta(
+    from(
+      o => {
+        const result = run(o);
+        return result instanceof Failure ? left(result.error as E) : right(result as R);
+      },
+      o => runParserAll(parser, o)
+    ),
+    parser.meta
+  );
+}
@@ -0,0 +1,141 @@
+import { declare } from "./cli";
+import {
+  array,
+  field,
+  literal,
+  map,
+  nullable,
+  object,
+  Parser,
+  recursive,
+  record,
+  string,
+  thing,
+  toDeclarations,
+  tuple,
+  union,
+  withDefault
+} from "./index";
+
+const name = object.of({
+  first: field.required("first", thing.is.string),
+  last: field.required("last", thing.is.string)
+});
+
+interface Person {
+  name: { first: string; last: string };
+  age?: number;
+  children: Array<Person>;
+}
+
+const person: Parser<Person, unknown> = recursive(() =>
+  object.of({
+    name: field.required("name", name),
+    age: field.optional("age", thing.is.number),
+    children: field.required("children", array.of(person))
+  })
+);
+
+describe("toDeclarations", () => {
+  test("interfaces referring to each other", () => {
+    expect(toDeclarations({ Person: person, Name: name })).toEqual(
+      [
+        "export interface Person {",
+        "  name: Name;",
+        "  age?: number;",
+        "  children: Array<Person>;",
+        "}",
+        "",
+        "export interface Name {",
+        "  first: string;",
+        "  last: string;",
+        "}",
+        ""
+      ].join("\n")
+    );
+  });
+
+  test("type aliases", () => {
+    const status = union.tagged("status", {
+      active: object.of({ since: field.required("since", string.format.date) }),
+      closed: thing.is.object
+    });
+    expect(toDeclarations({ Status: status })).toEqual(
+      [
+        "export type Status = {",
+        "  since: string;",
+        '  status: "active";',
+        "} | object & {",
+        '  status: "closed";',
+        "};",
+        ""
+      ].join("\n")
+    );
+    expect(toDeclarations({ Pair: tuple(thing.is.equalTo("a"), nullable(thing.is.number)) })).toEqual(
+      'export type Pair = ["a", null | number];\n'
+    );
+    expect(toDeclarations({ Scores: record(thing.is.string, thing.is.number) })).toEqual(
+      "export type Scores = Record<string, number>;\n"
+    );
+    expect(toDeclarations({ Level: literal("low", 2, true, null, BigInt(3)) })).toEqual(
+      'export type Level = "low" | 2 | true | null | 3n;\n'
+    );
+  });
+
+  test("nested objects, defaults and transformed values", () => {
+    const options = object.passthrough({
+      retries: withDefault(field.optional("retries", thing.is.number), 3),
+      "log-level": field.optional("log-level", object.of({ verbose: field.required("verbose", thing.is.boolean) })),
+      length: field.required(
+        "name",
+        map(thing.is.string, s => s.length)
+      )
+    });
+    expect(toDeclarations({ Options: options })).toEqual(
+      [
+        "export interface Options {",
+        "  retries: number;",
+        '  "log-level"?: {',
+        "    verbose: boolean;",
+        "  };",
+        "  length: unknown;",
+        "  [key: string]: unknown;",
+        "}",
+        ""
+      ].join("\n")
+    );
+  });
+
+  test("unnamed recursive parsers", () => {
+    const tree = object.of({
+      children: field.required(
+        "children",
+        array.of(recursive(() => tuple(thing.is.string, array.of(thing.is.string)), "Leaf"))
+      )
+    });
+    expect(toDeclarations({ Tree: tree })).toEqual(
+      [
+        "export interface Tree {",
+        "  children: Array<Leaf>;",
+        "}",
+        "",
+        "export type Leaf = [string, Array<string>];",
+        ""
+      ].join("\n")
+    );
+    expect(() => toDeclarations({ "not a name": name })).toThrow();
+  });
+});
+
+describe("cli", () => {
+  const load = () => ({ person, name, other: 1 });
+
+  test("declares the exported parsers", () => {
+    expect(declare(["./schemas", "name", "person:Human"], load)).toEqual(toDeclarations({ Name: name, Human: person }));
+  });
+
+  test("fails for missing arguments and exports", () => {
+    expect(() => declare(["./schemas"], load)).toThrow(/^usage/);
+    expect(() => declare(["./schemas", "other"], load)).toThrow("./schemas does not export a parser named other");
+  });
+});
@@ -0,0 +1,207 @@
+import { AnyParser, fieldMeta, Meta } from "./meta";
+import { PrimitiveString } from "./util";
+
+const identifier = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+const propertyName = (name: string): string => (identifier.test(name) ? name : JSON.stringify(name));
+
+const indent = (text: string): string => text.replace(/\n/g, "\n  ");
+
+const typeName = (type: PrimitiveString): string => {
+  switch (type) {
+    case "function":
+      return "Function";
+    default:
+      return type;
+  }
+};
+
+const literal = (value: unknown): string => {
+  switch (typeof value) {
+    case "string":
+    case "boolean":
+      return JSON.stringify(value);
+    case "number":
+      return isFinite(value as number) ? String(value) : "number";
+    case "bigint":
+      return `${value}n`;
+    case "undefined":
+      return "undefined";
+    default:
+      // objects are compared structurally (_.isEqual), and their exact shape is not spelled out as a type
+      return value === null ? "null" : "unknown";
+  }
+};
+
+/**
+ * Parenthesize a union for use as an operand of `&`.
+ */
+const operand = (type: string): string => (type.indexOf(" | ") === -1 ? type : `(${type})`);
+
+interface Property {
+  name: string;
+  type: string;
+  optional: boolean;
+}
+
+const objectType = (properties: Array<Property>, index?: string): string => {
+  const lines = properties.map(
+    property => `${propertyName(property.name)}${property.optional ? "?" : ""}: ${indent(property.type)};`
+  );
+  const all = index === undefined ? lines : [...lines, `[key: string]: ${index};`];
+  return all.length === 0 ? "{}" : `{\n  ${all.join("\n  ")}\n}`;
+};
+
+class DeclarationBuilder {
+  private readonly names = new Map<AnyParser, string>();
+  private readonly used = new Set<string>();
+  private readonly pending: Array<[string, AnyParser]> = [];
+
+  constructor(parsers: Record<string, AnyParser>) {
+    Object.keys(parsers).forEach(name => {
+      if (!identifier.test(name)) {
+        throw new Error(`${JSON.stringify(name)} is not a valid type name`);
+      }
+      if (!this.names.has(parsers[name])) {
+        this.names.set(parsers[name], name);
+      }
+      this.used.add(name);
+      this.pending.push([name, parsers[name]]);
+    });
+  }
+
+  private name(parser: AnyParser, name: string | undefined): string {
+    const base = name === undefined || !identifier.test(name) ? "Recursive" : name;
+    let candidate = name === undefined ? `${base}1` : base;
+    for (let i = 2; this.used.has(candidate); ++i) {
+      candidate = `${base}${i}`;
+    }
+    this.names.set(parser, candidate);
+    this.used.add(candidate);
+    this.pending.push([candidate, parser]);
+    return candidate;
+  }
+
+  private properties(meta: Extract<Meta, { _tag: "Struct" }>): Array<Property> {
+    return Object.keys(meta.fields).map(key => {
+      const entry = meta.fields[key];
+      const field = fieldMeta(entry);
+      if (entry.meta !== undefined && entry.meta._tag === "Default" && field !== undefined) {
+        return { name: key, type: this.type(field.parser), optional: false };
+      }
+      if (field !== undefined && field.optional && entry.meta === field) {
+        return { name: key, type: this.type(field.parser), optional: true };
+      }
+      return { name: key, type: this.type(entry), optional: false };
+    });
+  }
+
+  private struct(meta: Extract<Meta, { _tag: "Struct" }>, extra: Array<Property> = []): string {
+    // the index signature has to admit the listed properties as well
+    const index =
+      meta.unknownKeys._tag === "Passthrough" || meta.unknownKeys._tag === "Catchall" ? "unknown" : undefined;
+    return objectType([...this.properties(meta), ...extra], index);
+  }
+
+  /**
+   * The type of the results of `parser`, referring to the parsers that have names by their name.
+   */
+  type(parser: AnyParser, root: boolean = false): string {
+    const named = this.names.get(parser);
+    if (named !== undefined && !root) {
+      return named;
+    }
+    const meta = parser.meta;
+    if (meta === undefined) {
+      return "unknown";
+    }
+    switch (meta._tag) {
+      case "Type":
+        return typeName(meta.type);
+      case "Object":
+        return "object";
+      case "Not":
+        return "unknown";
+      case "Literal":
+        return literal(meta.value);
+      case "Enum":
+        return meta.values.map(literal).join(" | ");
+      case "Refinement":
+        return this.type(meta.parser);
+      case "Struct":
+        return this.struct(meta);
+      case "Field":
+        const field = this.type(meta.parser);
+        return meta.optional ? `${field} | undefined` : field;
+      case "Array":
+        return meta.element === undefined ? "Array<unknown>" : `Array<${this.type(meta.element)}>`;
+      case "Tuple":
+        return `[${meta.elements.map(element => this.type(element)).join(", ")}]`;
+      case "Record":
+        return `Record<${this.type(meta.key)}, ${this.type(meta.value)}>`;
+      case "Union":
+        return meta.alternatives.map(alternative => this.type(alternative)).join(" | ");
+      case "Tagged":
+        const tagged = meta;
+        return Object.keys(tagged.variants)
+          .map(tag => {
+            const variant = tagged.variants[tag];
+            const tagProperty = { name: tagged.field, type: JSON.stringify(tag), optional: false };
+            return variant.meta !== undefined && variant.meta._tag === "Struct" && !this.names.has(variant)
+              ? this.struct(variant.meta, [tagProperty])
+              : `${operand(this.type(variant))} & ${objectType([tagProperty])}`;
+          })
+          .join(" | ");
+      case "Recursive":
+        return this.name(parser, meta.name);
+      case "Compose":
+        return this.type(meta.second);
+      case "Map":
+      case "Chain":
+        // the results of functions cannot be inspected
+        return "unknown";
+      case "Default":
+        const inner = fieldMeta(meta.parser);
+        return inner !== undefined && meta.parser.meta === inner
+          ? this.type(inner.parser)
+          : `Exclude<${this.type(meta.parser)}, undefined>`;
+      case "MapError":
+      case "Catch":
+      case "Preprocess":
+        return this.type(meta.parser);
+    }
+  }
+
+  /**
+   * Declare each of the named types, including those of the recursive parsers found along the way.
+   */
+  declarations(): Array<string> {
+    const declarations: Array<string> = [];
+    for (let i = 0; i < this.pending.length; ++i) {
+      const [name, parser] = this.pending[i];
+      // a recursive parser is declared as the type of its body, so that references to it can be resolved
+      const body = parser.meta !== undefined && parser.meta._tag === "Recursive" ? parser.meta.body() : parser;
+      const named = this.names.get(body);
+      const alias = named !== undefined && named !== name;
+      declarations.push(
+        !alias && body.meta !== undefined && body.meta._tag === "Struct"
+          ? `export interface ${name} ${this.struct(body.meta)}`
+          : `export type ${name} = ${this.type(body, !alias)};`
+      );
+    }
+    return declarations;
+  }
+}
+
+/**
+ * Generate the source of TypeScript declarations for the results of parsers, such as for publishing them to
+ * consumers that do not depend on this library. Object parsers are declared as interfaces and other parsers
+ * as type aliases, and a parser used by another one is referred to by its name. Recursive parsers without a
+ * name in `parsers` are declared under the name given to `recursive`. The results of `map` and `chain` cannot
+ * be inspected, and are declared as `unknown`.
+ *
+ * @param parsers the parsers to declare, by the name of their type
+ */
+export function toDeclarations(parsers: Record<string, AnyParser>): string {
+  return new DeclarationBuilder(parsers).declarations().join("\n\n") + "\n";
+}
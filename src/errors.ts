@@ -0,0 +1,286 @@
+import { NonEmptyArray } from "fp-ts/lib/NonEmptyArray";
+import { StringFormat } from "./format";
+import { PrimitiveString } from "./util";
+
+export type Field = string | number | symbol;
+
+/**
+ * The base of the errors thrown by the library. It restores the prototype chain of subclasses, which is lost
+ * when extending builtins in ES5, so that `instanceof` works for them.
+ */
+export class UnunknownError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * A location inside of the input value, as a list of field names and array indices.
+ */
+export type Path = Array<string | number>;
+export type PathError<E> = { path: Path; error: E };
+
+/**
+ * The input was not of the expected primitive type (`typeof`), or was `null` when an object was expected.
+ */
+export interface NotOfTypeError {
+  _tag: "NotOfType";
+  type: PrimitiveString;
+  value: unknown;
+}
+
+/**
+ * The input was of a primitive type that was explicitly excluded.
+ */
+export interface OfExcludedTypeError {
+  _tag: "OfExcludedType";
+  type: PrimitiveString;
+  value: unknown;
+}
+
+export interface NotEqualError {
+  _tag: "NotEqual";
+  to: unknown;
+  value: unknown;
+}
+
+/**
+ * The input is none of `values`, as checked by `literal`, `enumOf` and `keyOf`.
+ */
+export interface NotOneOfError {
+  _tag: "NotOneOf";
+  values: Array<unknown>;
+  value: unknown;
+}
+
+export interface PredicateMismatchError {
+  _tag: "PredicateMismatch";
+  value: unknown;
+  customMessage: string;
+}
+
+/**
+ * The input string is not of the format `format`, such as `"email"`.
+ */
+export interface InvalidFormatError {
+  _tag: "InvalidFormat";
+  format: StringFormat;
+  value: unknown;
+}
+
+/**
+ * The length of the input is not within `min` and `max`.
+ */
+export interface LengthMismatchError {
+  _tag: "LengthMismatch";
+  min?: number;
+  max?: number;
+  value: unknown;
+}
+
+export interface MissingPrefixError {
+  _tag: "MissingPrefix";
+  prefix: string;
+  value: unknown;
+}
+
+/**
+ * The input string has leading or trailing whitespace.
+ */
+export interface NotTrimmedError {
+  _tag: "NotTrimmed";
+  value: unknown;
+}
+
+/**
+ * The input number is `NaN`, `Infinity` or `-Infinity`.
+ */
+export interface NotFiniteError {
+  _tag: "NotFinite";
+  value: unknown;
+}
+
+export interface NotAnIntegerError {
+  _tag: "NotAnInteger";
+  value: unknown;
+}
+
+/**
+ * The input number or bigint is not within `min` and `max`, which are excluded from the range if `exclusive`.
+ */
+export interface OutOfRangeError {
+  _tag: "OutOfRange";
+  min?: number | bigint;
+  max?: number | bigint;
+  exclusive: boolean;
+  value: unknown;
+}
+
+export interface NotAMultipleOfError {
+  _tag: "NotAMultipleOf";
+  multipleOf: number;
+  value: unknown;
+}
+
+export interface FieldDoesNotExistError {
+  _tag: "FieldDoesNotExistOn";
+  field: Field;
+  value: unknown;
+}
+
+/**
+ * The field exists on the input, but its value failed to parse with `cause`.
+ */
+export interface FieldMismatchError<E = unknown> {
+  _tag: "FieldMisMatch";
+  field: Field;
+  value: unknown;
+  cause: E;
+}
+
+/**
+ * The input object has keys that are not listed by its parser.
+ */
+export interface UnexpectedKeysError {
+  _tag: "UnexpectedKeys";
+  keys: Array<string>;
+  value: unknown;
+}
+
+/**
+ * The key `key` of the input object failed to parse with `cause`.
+ */
+export interface KeyMismatchError<E = unknown> {
+  _tag: "KeyMisMatch";
+  key: string;
+  value: unknown;
+  cause: E;
+}
+
+export interface NotAnArrayError {
+  _tag: "NotAnArray";
+  value: unknown;
+}
+
+/**
+ * The element at `index` of the input array failed to parse with `cause`.
+ */
+export interface ElementMismatchError<E = unknown> {
+  _tag: "ElementMisMatch";
+  index: number;
+  value: unknown;
+  cause: E;
+}
+
+/**
+ * None of the alternatives matched the input, `causes` holds the error of each alternative in order. With
+ * `runParserAll`, each cause is the list of every error of the alternative, along with its path.
+ */
+export interface NoAlternativeMatchedError<E = unknown> {
+  _tag: "NoAlternativeMatched";
+  value: unknown;
+  causes: Array<E | NonEmptyArray<PathError<E>>>;
+}
+
+/**
+ * The tag `field` of the input object is not one of `tags`, the tags of the variants of a tagged union.
+ */
+export interface UnknownTagError {
+  _tag: "UnknownTag";
+  field: string;
+  tags: Array<string>;
+  value: unknown;
+}
+
+/**
+ * The input was reached again while it was being parsed by a `recursive` parser that detects cycles, as it
+ * contains itself. It is reported at the path where the input is referenced again.
+ */
+export interface CircularReferenceError {
+  _tag: "CircularReference";
+  value: unknown;
+}
+
+/**
+ * The input is nested more than `maxDepth` times under a `recursive` parser.
+ */
+export interface MaxDepthExceededError {
+  _tag: "MaxDepthExceeded";
+  maxDepth: number;
+  value: unknown;
+}
+
+/**
+ * Every error produced by the built-in parsers.
+ */
+export type ParserError =
+  | NotOfTypeError
+  | OfExcludedTypeError
+  | NotEqualError
+  | NotOneOfError
+  | PredicateMismatchError
+  | InvalidFormatError
+  | LengthMismatchError
+  | MissingPrefixError
+  | NotTrimmedError
+  | NotFiniteError
+  | NotAnIntegerError
+  | OutOfRangeError
+  | NotAMultipleOfError
+  | FieldDoesNotExistError
+  | FieldMismatchError
+  | UnexpectedKeysError
+  | KeyMismatchError
+  | NotAnArrayError
+  | ElementMismatchError
+  | NoAlternativeMatchedError
+  | UnknownTagError
+  | CircularReferenceError
+  | MaxDepthExceededError;
+
+export type ParserErrorTag = ParserError["_tag"];
+
+export type ParserErrorOfTag<K extends ParserErrorTag> = Extract<ParserError, { _tag: K }>;
+
+const tags: { [K in ParserErrorTag]: true } = {
+  NotOfType: true,
+  OfExcludedType: true,
+  NotEqual: true,
+  NotOneOf: true,
+  PredicateMismatch: true,
+  InvalidFormat: true,
+  LengthMismatch: true,
+  MissingPrefix: true,
+  NotTrimmed: true,
+  NotFinite: true,
+  NotAnInteger: true,
+  OutOfRange: true,
+  NotAMultipleOf: true,
+  FieldDoesNotExistOn: true,
+  FieldMisMatch: true,
+  UnexpectedKeys: true,
+  KeyMisMatch: true,
+  NotAnArray: true,
+  ElementMisMatch: true,
+  NoAlternativeMatched: true,
+  UnknownTag: true,
+  CircularReference: true,
+  MaxDepthExceeded: true
+};
+
+/**
+ * Check whether an arbitrary value (such as the `cause` of another error) is one of the built-in errors.
+ */
+export function isParserError(u: unknown): u is ParserError {
+  return typeof u === "object" && u !== null && tags.hasOwnProperty((u as any)._tag);
+}
+
+/**
+ * Exhaustively handle each kind of built-in error.
+ *
+ * @param cases one handler per error `_tag`
+ */
+export const matchError = <A>(cases: { [K in ParserErrorTag]: (e: ParserErrorOfTag<K>) => A }) => (
+  error: ParserError
+): A => (cases[error._tag] as (e: ParserError) => A)(error);
@@ -0,0 +1,109 @@
+import { formats, Formatted, isSuccess, report, runParser, string, StringFormat, toJsonSchema } from "./index";
+
+const valid: { [F in StringFormat]: [Array<string>, Array<string>] } = {
+  email: [
+    ["a@b.co", "first.last+tag@sub.example.com"],
+    ["a@", "@b.co", "a b@c.d", "a@-b.com"]
+  ],
+  url: [
+    ["https://example.com", "http://localhost:8080/a?b=c#d"],
+    ["example.com", "https://", "mailto:a@b.c"]
+  ],
+  uri: [
+    ["mailto:a@b.c", "urn:isbn:0451450523", "https://example.com"],
+    ["example.com", "1http://a"]
+  ],
+  uuid: [
+    ["123e4567-e89b-12d3-a456-426614174000", "017F22E2-79B0-7CC3-98C4-DC0C0C07398F"],
+    ["123e4567-e89b-82d3-a456-426614174000", "123e4567-e89b-12d3-c456-426614174000", "123e4567e89b12d3a456426614174000"]
+  ],
+  date: [
+    ["2020-02-29", "1999-12-31"],
+    ["2019-02-29", "2020-13-01", "2020-1-1"]
+  ],
+  time: [
+    ["12:30:00Z", "23:59:60.5+01:00"],
+    ["24:00:00Z", "12:30:00", "12:30Z"]
+  ],
+  "date-time": [
+    ["2020-02-29T12:30:00Z", "2020-02-29t12:30:00.123-05:00"],
+    ["2020-02-29", "2020-02-29 12:30:00Z"]
+  ],
+  duration: [
+    ["P1Y2M3DT4H5M6S", "PT0.5S", "P2W"],
+    ["P", "PT", "P1H", "1D"]
+  ],
+  ipv4: [
+    ["127.0.0.1", "255.255.255.255"],
+    ["256.0.0.1", "1.2.3", "01.2.3.4"]
+  ],
+  ipv6: [
+    ["::1", "::", "2001:db8::8a2e:370:7334", "::ffff:192.0.2.128", "1:2:3:4:5:6:7:8"],
+    ["1:2:3:4:5:6:7:8:9", "1::2::3", "12345::", "::ffff:999.0.0.1", ":1:2:3:4:5:6:7"]
+  ],
+  cidr: [
+    ["10.0.0.0/8", "2001:db8::/32"],
+    ["10.0.0.0/33", "10.0.0.0", "2001:db8::/129"]
+  ],
+  hostname: [
+    ["example.com", "localhost", "a-b.c"],
+    ["-a.com", "a..b", `${"a".repeat(64)}.com`]
+  ],
+  semver: [
+    ["1.0.0", "1.2.3-alpha.1+build.5"],
+    ["1.0", "01.0.0", "1.0.0-01"]
+  ],
+  base64: [
+    ["", "YQ==", "YWJj"],
+    ["YQ", "Y===", "a b="]
+  ],
+  hex: [
+    ["deadBEEF", "0"],
+    ["", "0x1", "g"]
+  ],
+  e164: [
+    ["+14155552671", "+442071838750"],
+    ["14155552671", "+0123", "+1234567890123456"]
+  ],
+  slug: [
+    ["my-blog-post", "a1"],
+    ["My-Post", "a--b", "-a", "a_b"]
+  ]
+};
+
+describe("formats", () => {
+  (Object.keys(valid) as Array<StringFormat>).forEach(format =>
+    test(format, () => {
+      const [accepted, rejected] = valid[format];
+      expect(accepted.filter(s => !formats[format](s))).toEqual([]);
+      expect(rejected.filter(s => formats[format](s))).toEqual([]);
+    })
+  );
+});
+
+describe("string.format", () => {
+  test("fails with the name of the format", () => {
+    const result = runParser(string.format.email, "a@");
+    expect(isSuccess(result) ? undefined : result.left).toEqual({
+      _tag: "InvalidFormat",
+      format: "email",
+      value: "a@"
+    });
+    expect(isSuccess(result) ? "" : report.text(result.left)).toEqual(
+      'at root: expected a valid email, got string "a@"'
+    );
+  });
+
+  test("branded strings", () => {
+    const result = runParser(string.format.branded("uuid"), "123e4567-e89b-12d3-a456-426614174000");
+    const id: Formatted<"uuid"> | false = isSuccess(result) && result.right;
+    expect(id).toEqual("123e4567-e89b-12d3-a456-426614174000");
+  });
+
+  test("json schemas", () => {
+    expect(toJsonSchema(string.format.date)).toMatchObject({ type: "string", format: "date" });
+    expect(toJsonSchema(string.format.email).pattern).toBeDefined();
+    expect(toJsonSchema(string.format.slug)).toMatchObject({ type: "string", pattern: "^[a-z0-9]+(?:-[a-z0-9]+)*$" });
+    expect(toJsonSchema(string.format.cidr)["x-ununknown-opaque"]).toEqual("format cidr");
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * The names of the string formats checked by `string.format`.
+ */
+export type StringFormat =
+  | "email"
+  | "url"
+  | "uri"
+  | "uuid"
+  | "date"
+  | "time"
+  | "date-time"
+  | "duration"
+  | "ipv4"
+  | "ipv6"
+  | "cidr"
+  | "hostname"
+  | "semver"
+  | "base64"
+  | "hex"
+  | "e164"
+  | "slug";
+
+/**
+ * A string known to be of the format `F`, given by the branded format parsers.
+ */
+export type Formatted<F extends StringFormat> = string & { readonly __format: F };
+
+const label = "[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?";
+const octet = "(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)";
+const identifier = "(?:0|[1-9]\\d*|\\d*[A-Za-z-][0-9A-Za-z-]*)";
+const version = "(?:0|[1-9]\\d*)";
+
+/**
+ * The formats that are fully described by a regular expression.
+ */
+export const formatPatterns: { [F in StringFormat]?: RegExp } = {
+  email: new RegExp(`^[A-Za-z0-9.!#$%&'*+/=?^_\`{|}~-]+@${label}(?:\\.${label})*$`),
+  url: /^(?:https?|ftp):\/\/[^\s/?#@]+(?:[/?#]\S*)?$/,
+  uri: /^[A-Za-z][A-Za-z0-9+.-]*:\S*$/,
+  uuid: /^[0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[1-7][0-9A-Fa-f]{3}-[89ABab][0-9A-Fa-f]{3}-[0-9A-Fa-f]{12}$/,
+  duration: /^P(?!$)(?:\d+Y)?(?:\d+M)?(?:\d+W)?(?:\d+D)?(?:T(?=\d)(?:\d+H)?(?:\d+M)?(?:\d+(?:\.\d+)?S)?)?$/,
+  ipv4: new RegExp(`^${octet}(?:\\.${octet}){3}$`),
+  hostname: new RegExp(`^(?=.{1,253}$)${label}(?:\\.${label})*$`),
+  semver: new RegExp(
+    `^${version}\\.${version}\\.${version}` +
+      `(?:-${identifier}(?:\\.${identifier})*)?(?:\\+[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*)?$`
+  ),
+  base64: /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/,
+  hex: /^[0-9A-Fa-f]+$/,
+  e164: /^\+[1-9]\d{1,14}$/,
+  slug: /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+};
+
+const daysInMonth = (year: number, month: number) =>
+  month === 2
+    ? year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0)
+      ? 29
+      : 28
+    : [4, 6, 9, 11].indexOf(month) !== -1
+    ? 30
+    : 31;
+
+const isDate = (s: string): boolean => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s);
+  if (match === null) {
+    return false;
+  }
+  const [year, month, day] = [+match[1], +match[2], +match[3]];
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+};
+
+const isTime = (s: string): boolean => {
+  const match = /^(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:[Zz]|[+-](\d{2}):(\d{2}))$/.exec(s);
+  if (match === null) {
+    return false;
+  }
+  const [hour, minute, second] = [+match[1], +match[2], +match[3]];
+  const offset = match[4] === undefined || (+match[4] <= 23 && +match[5] <= 59);
+  // a leap second may be inserted at the end of any minute, depending on the time zone
+  return hour <= 23 && minute <= 59 && second <= 60 && offset;
+};
+
+const isDateTime = (s: string): boolean => {
+  const parts = s.split(/[Tt]/);
+  return parts.length === 2 && isDate(parts[0]) && isTime(parts[1]);
+};
+
+const isIpv6 = (s: string): boolean => {
+  const halves = s.split("::");
+  if (halves.length > 2) {
+    return false;
+  }
+  const groups = ([] as Array<string>).concat(...halves.map(half => (half === "" ? [] : half.split(":"))));
+  const last = groups[groups.length - 1];
+  // the last 32 bits may be written as an IPv4 address
+  const embedsIpv4 = last !== undefined && last.indexOf(".") !== -1;
+  if (embedsIpv4 && !formatPatterns.ipv4!.test(last)) {
+    return false;
+  }
+  const hextets = groups.slice(0, embedsIpv4 ? -1 : groups.length);
+  if (!hextets.every(group => /^[0-9A-Fa-f]{1,4}$/.test(group))) {
+    return false;
+  }
+  const size = hextets.length + (embedsIpv4 ? 2 : 0);
+  return halves.length === 2 ? size < 8 : size === 8;
+};
+
+const isCidr = (s: string): boolean => {
+  const match = /^([^/]+)\/(0|[1-9]\d{0,2})$/.exec(s);
+  if (match === null) {
+    return false;
+  }
+  const prefix = +match[2];
+  return formatPatterns.ipv4!.test(match[1]) ? prefix <= 32 : isIpv6(match[1]) && prefix <= 128;
+};
+
+/**
+ * Check whether a string is of a format.
+ */
+export const formats: { [F in StringFormat]: (s: string) => boolean } = {
+  email: s => formatPatterns.email!.test(s),
+  url: s => formatPatterns.url!.test(s),
+  uri: s => formatPatterns.uri!.test(s),
+  uuid: s => formatPatterns.uuid!.test(s),
+  date: isDate,
+  time: isTime,
+  "date-time": isDateTime,
+  duration: s => formatPatterns.duration!.test(s),
+  ipv4: s => formatPatterns.ipv4!.test(s),
+  ipv6: isIpv6,
+  cidr: isCidr,
+  hostname: s => formatPatterns.hostname!.test(s),
+  semver: s => formatPatterns.semver!.test(s),
+  base64: s => formatPatterns.base64!.test(s),
+  hex: s => formatPatterns.hex!.test(s),
+  e164: s => formatPatterns.e164!.test(s),
+  slug: s => formatPatterns.slug!.test(s)
+};
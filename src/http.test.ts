@@ -0,0 +1,262 @@
+import * as nodeHttp from "http";
+import { AddressInfo } from "net";
+import { http } from "./http";
+import { coerce, field, object, string, thing } from "./index";
+
+interface Response {
+  status: number;
+  type: string | undefined;
+  body: any;
+}
+
+const listen = (handle: (request: nodeHttp.IncomingMessage, response: nodeHttp.ServerResponse) => void) =>
+  new Promise<nodeHttp.Server>(resolve => {
+    const server = nodeHttp.createServer(handle);
+    server.listen(0, "127.0.0.1", () => resolve(server));
+  });
+
+const close = (server: nodeHttp.Server) => new Promise(resolve => server.close(resolve));
+
+const send = (server: nodeHttp.Server, path: string, body?: string, headers: Record<string, string> = {}) =>
+  new Promise<Response>((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    const request = nodeHttp.request({ host: "127.0.0.1", port, path, method: "POST", headers }, response => {
+      const chunks: Array<Buffer> = [];
+      response.on("data", chunk => chunks.push(chunk));
+      response.on("end", () => {
+        const text = Buffer.concat(chunks).toString("utf8");
+        resolve({ status: response.statusCode!, type: response.headers["content-type"], body: JSON.parse(text) });
+      });
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+
+const spec = {
+  body: object.of({
+    name: field.required("name", string.nonEmpty),
+    age: field.required("age", thing.is.number)
+  }),
+  query: object.of({ notify: field.optional("notify", coerce.boolean) }),
+  headers: object.of({ "x-api-key": field.required("x-api-key", thing.is.string) })
+};
+
+const headers = { "x-api-key": "secret" };
+
+describe("http.handler", () => {
+  let server: nodeHttp.Server;
+
+  beforeAll(async () => {
+    server = await listen(
+      http.handler(
+        spec,
+        ({ body, query }, _request, response) => {
+          const name: string = body.name;
+          const notify: boolean | undefined = query.notify;
+          response.setHeader("Content-Type", "application/json");
+          response.end(JSON.stringify({ name, notify }));
+        },
+        { maxBodySize: 100 }
+      )
+    );
+  });
+
+  afterAll(() => close(server));
+
+  test("calls the handler with the parsed request", async () => {
+    const response = await send(server, "/users?notify=yes", JSON.stringify({ name: "Ada", age: 36 }), headers);
+    expect(response).toEqual({ status: 200, type: "application/json", body: { name: "Ada", notify: true } });
+  });
+
+  test("answers invalid requests with a problem listing every error", async () => {
+    const response = await send(server, "/users?notify=maybe", JSON.stringify({ name: "", age: "old" }));
+    expect(response.status).toEqual(400);
+    expect(response.type).toEqual("application/problem+json");
+    expect(response.body).toEqual({
+      type: "about:blank",
+      title: "Bad Request",
+      status: 400,
+      detail: "the request has 4 invalid values",
+      errors: {
+        "/body/name": ['expected a length of at least 1, got string ""'],
+        "/body/age": ['expected number, got string "old"'],
+        "/query/notify": ['expected a boolean, got string "maybe"'],
+        "/headers/x-api-key": ["missing required field x-api-key"]
+      }
+    });
+  });
+
+  test("answers bodies that are not JSON or too large", async () => {
+    const invalid = await send(server, "/users", "{", headers);
+    expect(invalid.status).toEqual(400);
+    expect(Object.keys(invalid.body.errors)).toEqual(["/body"]);
+    expect(invalid.body.errors["/body"][0]).toMatch(/^invalid JSON: /);
+    const missing = await send(server, "/users", undefined, headers);
+    expect(missing.body.errors).toEqual({ "/body": ["expected object, got undefined"] });
+    const large = await send(server, "/users", JSON.stringify({ name: "a".repeat(100), age: 1 }), headers);
+    expect(large).toEqual({
+      status: 413,
+      type: "application/problem+json",
+      body: {
+        type: "about:blank",
+        title: "Payload Too Large",
+        status: 413,
+        detail: "the body is larger than 100 bytes"
+      }
+    });
+  });
+
+  test("closes the connection after a body that is too large", async () => {
+    const { port } = server.address() as AddressInfo;
+    const response = await new Promise<nodeHttp.IncomingMessage>((resolve, reject) => {
+      const request = nodeHttp.request({ host: "127.0.0.1", port, path: "/users", method: "POST", headers }, resolve);
+      request.on("error", reject);
+      request.end("x".repeat(200));
+    });
+    response.resume();
+    expect(response.statusCode).toEqual(413);
+    expect(response.headers.connection).toEqual("close");
+  });
+
+  test("stops waiting for the body of aborted requests", async () => {
+    const handle = jest.fn();
+    const onError = jest.fn();
+    let handled: Promise<void> | undefined;
+    const wrapped = http.handler(spec, handle, { onError });
+    const aborting = await listen((request, response) => {
+      handled = wrapped(request, response);
+    });
+    try {
+      const { port } = aborting.address() as AddressInfo;
+      const request = nodeHttp.request({
+        host: "127.0.0.1",
+        port,
+        method: "POST",
+        headers: { ...headers, "content-length": "100" }
+      });
+      request.on("error", () => undefined);
+      request.write("{");
+      await new Promise(resolve => setTimeout(resolve, 50));
+      request.destroy();
+      await handled;
+      expect(onError.mock.calls[0][0].message).toEqual("the request was aborted before its body was read");
+      expect(handle).not.toHaveBeenCalled();
+    } finally {
+      await close(aborting);
+    }
+  });
+
+  test("answers errors of the handler", async () => {
+    const onError = jest.fn();
+    const failing = await listen(
+      http.handler(
+        {},
+        () => {
+          throw new Error("the database is down");
+        },
+        { onError }
+      )
+    );
+    try {
+      expect(await send(failing, "/")).toEqual({
+        status: 500,
+        type: "application/problem+json",
+        body: { type: "about:blank", title: "Internal Server Error", status: 500 }
+      });
+      expect(onError.mock.calls[0][0].message).toEqual("the database is down");
+    } finally {
+      await close(failing);
+    }
+  });
+
+  test("leaves reporting errors to the application", async () => {
+    const log = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const failing = await listen(
+      http.handler({}, () => {
+        throw new Error("the database is down");
+      })
+    );
+    try {
+      expect((await send(failing, "/")).status).toEqual(500);
+      expect(log).not.toHaveBeenCalled();
+    } finally {
+      log.mockRestore();
+      await close(failing);
+    }
+  });
+
+  test("builds custom problems", async () => {
+    const custom = await listen(
+      http.handler({ query: object.of({ page: field.required("page", coerce.integer) }) }, () => undefined, {
+        problem: errors => ({ status: 422, title: "Unprocessable Entity", count: errors.length })
+      })
+    );
+    try {
+      const response = await send(custom, "/items");
+      expect(response).toEqual({
+        status: 422,
+        type: "application/problem+json",
+        body: { status: 422, title: "Unprocessable Entity", count: 1 }
+      });
+    } finally {
+      await close(custom);
+    }
+  });
+});
+
+describe("http.middleware", () => {
+  test("stores the parsed request for the next middleware", async () => {
+    const validate = http.middleware({
+      body: object.of({ id: field.required("id", thing.is.number) }),
+      params: object.of({ user: field.required("user", coerce.integer) })
+    });
+    // the request as Express leaves it, with its body and route parameters already read
+    const server = await listen((request, response) => {
+      Object.assign(request, { body: JSON.parse(request.headers["x-body"] as string), params: { user: "7" } });
+      validate(request, response, error => {
+        response.setHeader("Content-Type", "application/json");
+        response.end(JSON.stringify(error === undefined ? (request as any).validated : { error: String(error) }));
+      });
+    });
+    try {
+      const valid = await send(server, "/users/7", undefined, { "x-body": JSON.stringify({ id: 1 }) });
+      expect(valid.body).toEqual({ body: { id: 1 }, params: { user: 7 } });
+      const invalid = await send(server, "/users/7", undefined, { "x-body": JSON.stringify({}) });
+      expect(invalid.status).toEqual(400);
+      expect(invalid.body.errors).toEqual({ "/body/id": ["missing required field id"] });
+    } finally {
+      await close(server);
+    }
+  });
+});
+
+describe("http.koa", () => {
+  const context = (body: unknown): http.KoaContext => ({
+    req: { complete: true } as nodeHttp.IncomingMessage,
+    request: { body },
+    state: {},
+    status: 404,
+    type: "",
+    body: undefined,
+    set: () => undefined
+  });
+  const validate = http.koa({ body: object.of({ id: field.required("id", thing.is.number) }) });
+
+  test("stores the parsed request in the state", async () => {
+    const ctx = context({ id: 1 });
+    let called = false;
+    await validate(ctx, async () => {
+      called = true;
+    });
+    expect(called).toBeTruthy();
+    expect(ctx.state.validated).toEqual({ body: { id: 1 } });
+  });
+
+  test("answers with a problem", async () => {
+    const ctx = context({ id: "1" });
+    await validate(ctx, () => Promise.reject(new Error("not called")));
+    expect(ctx.status).toEqual(400);
+    expect(ctx.type).toEqual("application/problem+json");
+    expect(ctx.body).toMatchObject({ errors: { "/body/id": ['expected number, got string "1"'] } });
+  });
+});
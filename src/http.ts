@@ -0,0 +1,282 @@
+import { isLeft, left, right, Either } from "fp-ts/lib/Either";
+import { NonEmptyArray } from "fp-ts/lib/NonEmptyArray";
+import { IncomingMessage, ServerResponse } from "http";
+import { parse as parseQuery } from "querystring";
+import { PathError, PredicateMismatchError } from "./errors";
+import { Parser, ParserReturnType, runParserAll } from "./index";
+import { report, ReportOptions } from "./report";
+
+export namespace http {
+  export type Part = "body" | "query" | "params" | "headers";
+
+  /**
+   * The parsers of the parts of a request. Parts without a parser are left out of the validated request.
+   */
+  export type RequestSpec = { [K in Part]?: Parser<unknown, unknown> };
+
+  export type ValidatedRequest<S extends RequestSpec> = { [K in keyof S]: ParserReturnType<S[K]> };
+
+  /**
+   * A problem details object (RFC 7807), sent as `application/problem+json`.
+   */
+  export interface Problem {
+    type?: string;
+    title?: string;
+    status: number;
+    detail?: string;
+    instance?: string;
+    [extension: string]: unknown;
+  }
+
+  export interface HttpOptions {
+    /**
+     * Build the problem sent for a request that fails to parse, from the errors of every part of the request
+     * under the name of the part, such as `["body", "age"]`. Defaults to a `400 Bad Request` listing the
+     * messages of the errors by the JSON Pointer of their value, such as `"/body/age"`, in `errors`.
+     */
+    problem?: (errors: NonEmptyArray<PathError<unknown>>, request: IncomingMessage) => Problem;
+    /** The options of the messages of the default problem. */
+    report?: ReportOptions;
+    /** The largest body that is read, in bytes, beyond which a `413 Payload Too Large` is sent. Defaults to 1MB. */
+    maxBodySize?: number;
+    /**
+     * Called with the errors of `http.handler`, such as a request that is aborted or an exception of the wrapped
+     * handler, which are answered with a `500 Internal Server Error`. Errors are not reported otherwise.
+     */
+    onError?: (error: unknown, request: IncomingMessage) => void;
+  }
+
+  /**
+   * The parts of a request, as far as they were already read by a framework.
+   */
+  interface Parts {
+    body?: unknown;
+    query?: unknown;
+    params?: unknown;
+  }
+
+  const defaultProblem = (options: HttpOptions) => (errors: NonEmptyArray<PathError<unknown>>): Problem => ({
+    type: "about:blank",
+    title: "Bad Request",
+    status: 400,
+    detail: `the request has ${errors.length === 1 ? "an invalid value" : `${errors.length} invalid values`}`,
+    errors: report.pointers(errors, options.report)
+  });
+
+  class PayloadTooLarge {
+    constructor(readonly maxBodySize: number) {}
+  }
+
+  /**
+   * Read the JSON body of a request, which is `undefined` when the body is empty. The rest of a body larger than
+   * `maxBodySize` is left unread.
+   */
+  const readBody = (request: IncomingMessage, maxBodySize: number): Promise<Either<PredicateMismatchError, unknown>> =>
+    new Promise((resolve, reject) => {
+      const chunks: Array<Buffer> = [];
+      let size = 0;
+      const read = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBodySize) {
+          request.removeListener("data", read);
+          request.pause();
+          reject(new PayloadTooLarge(maxBodySize));
+        } else {
+          chunks.push(chunk);
+        }
+      };
+      // only settles the promise if the body was not read in full
+      const aborted = () => reject(new Error("the request was aborted before its body was read"));
+      request.on("data", read);
+      request.on("error", reject);
+      request.on("aborted", aborted);
+      request.on("close", aborted);
+      request.on("end", () => {
+        const text = Buffer.concat(chunks).toString("utf8");
+        if (text.trim() === "") {
+          return resolve(right(undefined));
+        }
+        try {
+          resolve(right(JSON.parse(text)));
+        } catch (e) {
+          resolve(left({ _tag: "PredicateMismatch", value: text, customMessage: `invalid JSON: ${e.message}` }));
+        }
+      });
+    });
+
+  /**
+   * Parse each part of `request` that `spec` has a parser for, collecting the errors of every part.
+   */
+  const validate = async <S extends RequestSpec>(
+    spec: S,
+    request: IncomingMessage,
+    parts: Parts,
+    options: HttpOptions
+  ): Promise<Either<NonEmptyArray<PathError<unknown>>, ValidatedRequest<S>>> => {
+    const errors: Array<PathError<unknown>> = [];
+    const result: Partial<Record<Part, unknown>> = {};
+    const run = (part: Part, input: unknown) => {
+      const parsed = runParserAll(spec[part]!, input);
+      if (isLeft(parsed)) {
+        errors.push(...parsed.left.map(({ path, error }) => ({ path: [part, ...path], error })));
+      } else {
+        result[part] = parsed.right;
+      }
+    };
+    if (spec.body !== undefined) {
+      const body = "body" in parts ? right(parts.body) : await readBody(request, options.maxBodySize || 1024 * 1024);
+      if (isLeft(body)) {
+        errors.push({ path: ["body"], error: body.left });
+      } else {
+        run("body", body.right);
+      }
+    }
+    if (spec.query !== undefined) {
+      const url = request.url || "";
+      const search = url.indexOf("?");
+      run("query", parts.query !== undefined ? parts.query : parseQuery(search === -1 ? "" : url.slice(search + 1)));
+    }
+    if (spec.params !== undefined) {
+      run("params", parts.params !== undefined ? parts.params : {});
+    }
+    if (spec.headers !== undefined) {
+      run("headers", request.headers);
+    }
+    return errors.length > 0 ? left(errors as NonEmptyArray<PathError<unknown>>) : right(result as ValidatedRequest<S>);
+  };
+
+  /**
+   * Answer with `problem`, closing the connection if the body of the request was left unread.
+   */
+  const send = (request: IncomingMessage, response: ServerResponse, problem: Problem) => {
+    if (!request.complete) {
+      response.setHeader("Connection", "close");
+    }
+    response.statusCode = problem.status;
+    response.setHeader("Content-Type", "application/problem+json");
+    response.end(JSON.stringify(problem));
+  };
+
+  /**
+   * Validate `request`, resolving to the problem to send if it fails to parse.
+   */
+  const problemOr = async <S extends RequestSpec>(
+    spec: S,
+    request: IncomingMessage,
+    parts: Parts,
+    options: HttpOptions
+  ): Promise<Either<Problem, ValidatedRequest<S>>> => {
+    try {
+      const result = await validate(spec, request, parts, options);
+      return isLeft(result) ? left((options.problem || defaultProblem(options))(result.left, request)) : result;
+    } catch (e) {
+      if (e instanceof PayloadTooLarge) {
+        return left({
+          type: "about:blank",
+          title: "Payload Too Large",
+          status: 413,
+          detail: `the body is larger than ${e.maxBodySize} bytes`
+        });
+      }
+      throw e;
+    }
+  };
+
+  /**
+   * Wrap a handler of Node's `http` server so that it is only called with requests whose parts parse, along
+   * with the results of the parsers. Other requests are answered with a problem (RFC 7807). Bodies are read
+   * as JSON, and queries from the URL of the request. The returned function never rejects: errors are given to
+   * `onError`, and answered with a `500 Internal Server Error` unless the response was already started.
+   */
+  export function handler<S extends RequestSpec>(
+    spec: S,
+    handle: (validated: ValidatedRequest<S>, request: IncomingMessage, response: ServerResponse) => unknown,
+    options: HttpOptions = {}
+  ): (request: IncomingMessage, response: ServerResponse) => Promise<void> {
+    return async (request, response) => {
+      try {
+        const result = await problemOr(spec, request, { params: (request as IncomingMessage & Parts).params }, options);
+        if (isLeft(result)) {
+          send(request, response, result.left);
+        } else {
+          await handle(result.right, request, response);
+        }
+      } catch (e) {
+        if (options.onError !== undefined) {
+          options.onError(e, request);
+        }
+        if (response.headersSent || request.aborted) {
+          response.destroy();
+        } else {
+          send(request, response, { type: "about:blank", title: "Internal Server Error", status: 500 });
+        }
+      }
+    };
+  }
+
+  /**
+   * Express middleware that stores the results of the parsers in `request.validated`, or answers with a
+   * problem. The body, query and route parameters already read by Express are used when there are any.
+   */
+  export function middleware<S extends RequestSpec>(
+    spec: S,
+    options: HttpOptions = {}
+  ): (request: IncomingMessage, response: ServerResponse, next: (error?: unknown) => void) => void {
+    return (request, response, next) => {
+      const express = request as IncomingMessage & Parts;
+      const parts: Parts = { query: express.query, params: express.params };
+      if (express.body !== undefined) {
+        parts.body = express.body;
+      }
+      problemOr(spec, request, parts, options).then(result => {
+        if (isLeft(result)) {
+          send(request, response, result.left);
+        } else {
+          (request as IncomingMessage & { validated?: unknown }).validated = result.right;
+          next();
+        }
+      }, next);
+    };
+  }
+
+  /**
+   * The parts of a Koa context that `koa` uses.
+   */
+  export interface KoaContext {
+    req: IncomingMessage;
+    request: { body?: unknown };
+    params?: unknown;
+    state: Record<string, unknown>;
+    status: number;
+    type: string;
+    body: unknown;
+    set(field: string, value: string): void;
+  }
+
+  /**
+   * Koa middleware that stores the results of the parsers in `ctx.state.validated`, or answers with a problem.
+   */
+  export function koa<S extends RequestSpec>(
+    spec: S,
+    options: HttpOptions = {}
+  ): (context: KoaContext, next: () => Promise<unknown>) => Promise<void> {
+    return async (context, next) => {
+      const parts: Parts = { params: context.params };
+      if (context.request.body !== undefined) {
+        parts.body = context.request.body;
+      }
+      const result = await problemOr(spec, context.req, parts, options);
+      if (isLeft(result)) {
+        if (!context.req.complete) {
+          context.set("Connection", "close");
+        }
+        context.status = result.left.status;
+        context.type = "application/problem+json";
+        context.body = result.left;
+      } else {
+        context.state.validated = result.right;
+        await next();
+      }
+    };
+  }
+}
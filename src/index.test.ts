@@ -13,9 +13,47 @@ import {
   runParser,
   parser,
   Parser,
-  isFailure
+  isFailure,
+  runParserAll,
+  mapError,
+  or,
+  matchError,
+  ParserError,
+  isParserError,
+  tuple,
+  record,
+  nonEmptyArray,
+  map,
+  set,
+  string,
+  report,
+  oneOf,
+  union,
+  from,
+  brand,
+  Brand,
+  ParserReturnType,
+  withDefault,
+  nullable,
+  nullish,
+  catchError,
+  preprocess,
+  refine,
+  RecursiveOptions,
+  bigint,
+  validateInPlace,
+  is,
+  assert,
+  Assertion,
+  ParseError,
+  coerce,
+  func,
+  literal,
+  enumOf,
+  keyOf
 } from "./index";
 import { sequenceS } from "fp-ts/lib/Apply";
+import { failure } from "./test-util";
 
 describe("primitive validation", () => {
   test("string", () => {
@@ -217,3 +255,840 @@ describe("structured validation", () => {
     expect(isSuccess(dateParser.runParser({ year: "-3999", month: {}, day: 30 }))).toBeFalsy();
   });
 });
+
+describe("accumulating validation", () => {
+  interface Person {
+    name: { first: string; last: string };
+    age?: number;
+    children: Array<Person>;
+  }
+
+  const personValidator: Parser<Person, unknown> = recursive(() =>
+    object.of({
+      name: field.required(
+        "name",
+        object.of({
+          first: field.required("first", thing.is.string),
+          last: field.required("last", thing.is.string)
+        })
+      ),
+      age: field.optional("age", thing.is.number),
+      children: field.required("children", array.of(personValidator))
+    })
+  );
+
+  const leaf = (first: unknown, last: unknown) => ({ name: { first, last }, children: [] });
+
+  test("succeeds with the parsed value", () => {
+    const input = { name: { first: "a", last: "b" }, age: 3, children: [leaf("c", "d")] };
+    expect(runParserAll(personValidator, input)).toEqual(runParser(personValidator, input));
+  });
+
+  test("reports every failure with its path", () => {
+    const result = runParserAll(personValidator, {
+      name: { first: 0 },
+      age: "12",
+      children: [leaf("a", "b"), leaf(1, "b"), 5, { name: { first: "a", last: "b" } }]
+    });
+    if (!isFailure(result)) {
+      throw new Error("expected failure");
+    }
+    expect(result.left.map(({ path }) => path)).toEqual([
+      ["name", "first"],
+      ["name", "last"],
+      ["age"],
+      ["children", 1, "name", "first"],
+      ["children", 2],
+      ["children", 3, "children"]
+    ]);
+    expect(result.left.map(({ error }) => (error as any)._tag)).toEqual([
+      "NotOfType",
+      "FieldDoesNotExistOn",
+      "NotOfType",
+      "NotOfType",
+      "NotOfType",
+      "FieldDoesNotExistOn"
+    ]);
+  });
+
+  test("compose and chain", () => {
+    const numberFromString = chain(thing.is.string, s =>
+      isNaN(+s) ? fail(`${s} is not a number` as string | thing.is.TypeMismatchError) : succeed(+s)
+    );
+    const pair = object.of({
+      a: field.required("a", compose(numberFromString, number.range.inclusive(0, 10))),
+      b: field.required(
+        "b",
+        mapError(compose(numberFromString, number.range.inclusive(0, 10)), () => "bad b")
+      )
+    });
+    const result = runParserAll(pair, { a: "11", b: "x" });
+    expect(isFailure(result) && result.left.map(({ path }) => path)).toEqual([["a"], ["b"]]);
+    expect(isFailure(result) && result.left[1].error).toEqual("bad b");
+    expect(runParserAll(pair, { a: "1", b: "2" })).toEqual(runParser(pair, { a: "1", b: "2" }));
+  });
+
+  test("or keeps the path of each error of each alternative", () => {
+    const point = object.of({ x: field.required("x", thing.is.number), y: field.required("y", thing.is.number) });
+    const input = { x: "1", y: "2" };
+    const result = runParserAll(or(point, thing.is.string), input);
+    expect(result).toEqual({
+      _tag: "Left",
+      left: [
+        {
+          path: [],
+          error: {
+            _tag: "NoAlternativeMatched",
+            value: input,
+            causes: [
+              [
+                { path: ["x"], error: { _tag: "NotOfType", type: "number", value: "1" } },
+                { path: ["y"], error: { _tag: "NotOfType", type: "number", value: "2" } }
+              ],
+              [{ path: [], error: { _tag: "NotOfType", type: "string", value: input } }]
+            ]
+          }
+        }
+      ]
+    });
+    expect(isFailure(result) && report.text(result.left)).toEqual(
+      'at root: none of 2 alternatives matched (at .x: expected number, got string "1", ' +
+        'at .y: expected number, got string "2"; expected string, got object {"x":"1","y":"2"})'
+    );
+    expect(runParserAll(or(point, thing.is.string), "a")).toEqual(runParser(or(point, thing.is.string), "a"));
+  });
+});
+
+describe("errors", () => {
+  test("primitive errors carry the input value", () => {
+    expect(failure(thing.is.string.runParser(0))).toEqual({ _tag: "NotOfType", type: "string", value: 0 });
+    expect(failure(thing.is.object.runParser(null))).toEqual({ _tag: "NotOfType", type: "object", value: null });
+    expect(failure(thing.is.equalTo("a").runParser("b"))).toEqual({ _tag: "NotEqual", to: "a", value: "b" });
+    expect(failure(thing.is.not.string.runParser("b"))).toEqual({ _tag: "OfExcludedType", type: "string", value: "b" });
+  });
+
+  test("nested errors carry their cause", () => {
+    const input = { list: [1, "2"] };
+    const listParser = field.required("list", array.of(thing.is.number));
+    expect(failure(listParser.runParser(input))).toEqual({
+      _tag: "FieldMisMatch",
+      field: "list",
+      value: input,
+      cause: {
+        _tag: "ElementMisMatch",
+        index: 1,
+        value: input.list,
+        cause: { _tag: "NotOfType", type: "number", value: "2" }
+      }
+    });
+    expect(failure(listParser.runParser({}))).toEqual({ _tag: "FieldDoesNotExistOn", field: "list", value: {} });
+    expect(failure(array.of(thing.is.number).runParser(0))).toEqual({ _tag: "NotAnArray", value: 0 });
+  });
+
+  test("or combines parsers with any error type", () => {
+    const stringOrNumber = or(thing.is.string, number.range.inclusive(0, 1));
+    expect(isSuccess(stringOrNumber.runParser("a"))).toBeTruthy();
+    expect(isSuccess(stringOrNumber.runParser(1))).toBeTruthy();
+    const error = failure(stringOrNumber.runParser(2));
+    expect(error._tag).toEqual("NoAlternativeMatched");
+    expect(error.causes.map(cause => !Array.isArray(cause) && cause._tag)).toEqual(["NotOfType", "PredicateMismatch"]);
+  });
+
+  test("matchError handles every tag", () => {
+    const message = matchError<string>({
+      NotOfType: e => `not ${e.type}`,
+      OfExcludedType: e => `is ${e.type}`,
+      NotEqual: () => "not equal",
+      NotOneOf: e => `not one of ${e.values.length} values`,
+      PredicateMismatch: e => e.customMessage,
+      InvalidFormat: e => `not ${e.format}`,
+      LengthMismatch: () => "wrong length",
+      MissingPrefix: e => `no ${e.prefix}`,
+      NotTrimmed: () => "not trimmed",
+      NotFinite: () => "not finite",
+      NotAnInteger: () => "not an integer",
+      OutOfRange: e => `not in ${e.min}..${e.max}`,
+      NotAMultipleOf: e => `not a multiple of ${e.multipleOf}`,
+      FieldDoesNotExistOn: e => `no ${String(e.field)}`,
+      FieldMisMatch: e => `bad ${String(e.field)}`,
+      UnexpectedKeys: e => `unexpected ${e.keys.join(", ")}`,
+      KeyMisMatch: e => `bad key ${e.key}`,
+      NotAnArray: () => "not an array",
+      ElementMisMatch: e => `bad element ${e.index}`,
+      NoAlternativeMatched: e => `${e.causes.length} alternatives failed`,
+      UnknownTag: e => `unknown ${e.field}`,
+      CircularReference: () => "circular",
+      MaxDepthExceeded: e => `deeper than ${e.maxDepth}`
+    });
+    const error: ParserError = failure(field.required("a", thing.is.string).runParser({ a: 0 })) as ParserError;
+    expect(message(error)).toEqual("bad a");
+    expect(isParserError(error)).toBeTruthy();
+    expect(isParserError("some string")).toBeFalsy();
+    expect(isParserError({ _tag: "Custom" })).toBeFalsy();
+  });
+});
+
+describe("unknown keys", () => {
+  const spec = {
+    name: field.required("name", thing.is.string),
+    years: field.optional("age", thing.is.number)
+  };
+  const input = { name: "a", age: 1, admin: true, role: "root" };
+
+  test("of and strip drop unknown keys", () => {
+    expect(runParser(object.of(spec), input)).toEqual(runParser(object.strip(spec), input));
+    expect(runParser(object.strip(spec), input)).toEqual(succeed({ name: "a", years: 1 }).runParser(input));
+  });
+
+  test("strict", () => {
+    expect(isSuccess(runParser(object.strict(spec), { name: "a", age: 1 }))).toBeTruthy();
+    expect(runParser(object.strict(spec), input)).toEqual(
+      fail({ _tag: "UnexpectedKeys", keys: ["admin", "role"], value: input }).runParser(input)
+    );
+    const all = runParserAll(object.strict(spec), { name: 0, extra: 1 });
+    expect(isFailure(all) && all.left.map(({ path, error }) => [path, error._tag])).toEqual([
+      [["name"], "NotOfType"],
+      [[], "UnexpectedKeys"]
+    ]);
+  });
+
+  test("passthrough", () => {
+    const result = runParser(object.passthrough(spec), input);
+    expect(isSuccess(result) && result.right).toEqual({ name: "a", years: 1, admin: true, role: "root" });
+  });
+
+  test("catchall", () => {
+    const parser = object.catchall({ name: field.required("name", thing.is.string) }, thing.is.string);
+    const result = runParser(parser, { name: "a", role: "root" });
+    expect(isSuccess(result) && result.right).toEqual({ name: "a", role: "root" });
+    expect(runParser(parser, { name: "a", admin: true })).toEqual(
+      fail({
+        _tag: "FieldMisMatch",
+        field: "admin",
+        value: { name: "a", admin: true },
+        cause: { _tag: "NotOfType", type: "string", value: true }
+      }).runParser(null)
+    );
+    const all = runParserAll(parser, { name: "a", admin: true, level: 3 });
+    expect(isFailure(all) && all.left.map(({ path }) => path)).toEqual([["admin"], ["level"]]);
+  });
+
+  test("unknown keys named __proto__ do not replace the prototype of the result", () => {
+    const input = JSON.parse('{"name": "a", "__proto__": {"isAdmin": true}}');
+    [object.passthrough(spec), object.catchall(spec, thing.is.object)].forEach(parser =>
+      [runParser(parser, input), runParserAll(parser, input)].forEach(result => {
+        const parsed: any = result._tag === "Right" && result.right;
+        expect(parsed.isAdmin).toBeUndefined();
+        expect(Object.getPrototypeOf(parsed)).toBe(Object.prototype);
+        expect(Object.keys(parsed)).toEqual(["name", "years", "__proto__"]);
+      })
+    );
+  });
+});
+
+describe("collections", () => {
+  test("tuple", () => {
+    const point = tuple(thing.is.string, thing.is.number, thing.is.boolean);
+    const result = runParser(point, ["a", 1, true]);
+    const typed: [string, number, boolean] | false = isSuccess(result) && result.right;
+    expect(typed).toEqual(["a", 1, true]);
+    expect(report.text(failure(runParser(point, ["a", 1])))).toEqual("at root: expected a tuple of 3 elements, got 2");
+    expect(report.text(failure(runParser(point, ["a", 1, 0])))).toEqual("at [2]: expected boolean, got number 0");
+    expect(report.text(failure(runParserAll(point, [0, "1", true])))).toEqual(
+      'at [0]: expected string, got number 0\nat [1]: expected number, got string "1"'
+    );
+    expect(failure(runParser(point, {}))).toEqual({ _tag: "NotAnArray", value: {} });
+  });
+
+  test("record", () => {
+    const scores = record(string.pattern("^[a-z]+$"), thing.is.number);
+    const result = runParser(scores, { alice: 1, bob: 2 });
+    expect(isSuccess(result) && result.right).toEqual({ alice: 1, bob: 2 });
+    expect(report.text(failure(runParser(scores, { alice: "1" })))).toEqual(
+      'at .alice: expected number, got string "1"'
+    );
+    expect(report.text(failure(runParserAll(scores, { Bob: 1, carol: null })))).toEqual(
+      'at root: key "Bob": "Bob" does not match pattern "^[a-z]+$"\nat .carol: expected number, got null'
+    );
+    expect(failure(runParser(scores, { Bob: 1 }))).toMatchObject({ _tag: "KeyMisMatch", key: "Bob" });
+  });
+
+  test("record keys named __proto__ do not replace the prototype of the result", () => {
+    const flags = record(thing.is.string, thing.is.object);
+    const input = JSON.parse('{"__proto__": {"isAdmin": true}}');
+    [runParser(flags, input), runParserAll(flags, input)].forEach(result => {
+      const parsed: any = result._tag === "Right" && result.right;
+      expect(parsed.isAdmin).toBeUndefined();
+      expect(Object.keys(parsed)).toEqual(["__proto__"]);
+    });
+  });
+
+  test("array lengths and uniqueness", () => {
+    const anyPair: Parser<Array<unknown>, unknown> = array.minLength(2);
+    const names: Parser<Array<string>, unknown> = array.maxLength(2, array.of(thing.is.string));
+    expect(runParser(anyPair, [1, {}])).toEqual({ _tag: "Right", right: [1, {}] });
+    expect(isFailure(runParser(names, [1]))).toBeTruthy();
+    expect(isSuccess(runParser(array.minLength(2), [1, 2]))).toBeTruthy();
+    expect(report.text(failure(runParser(array.minLength(2), [1])))).toEqual(
+      "at root: expected at least 2 elements, got 1"
+    );
+    expect(report.text(failure(runParser(array.maxLength(1, array.of(thing.is.number)), [1, 2])))).toEqual(
+      "at root: expected at most 1 element, got 2"
+    );
+    expect(failure(runParser(array.maxLength(1, array.of(thing.is.number)), ["a"]))).toMatchObject({
+      _tag: "ElementMisMatch"
+    });
+    expect(isSuccess(runParser(array.unique(), [{ a: 1 }, { a: 2 }]))).toBeTruthy();
+    expect(report.text(failure(runParser(array.unique(), [1, { a: 1 }, 2, { a: 1 }])))).toEqual(
+      "at root: expected unique elements, element 3 is equal to element 1"
+    );
+  });
+
+  test("non-empty arrays", () => {
+    const parser = nonEmptyArray.of(thing.is.number);
+    const result = runParser(parser, [1, 2]);
+    expect(isSuccess(result) && result.right[0]).toEqual(1);
+    expect(report.text(failure(runParser(parser, [])))).toEqual("at root: expected at least 1 element, got 0");
+  });
+
+  test("maps and sets", () => {
+    const parser = map.fromEntries(thing.is.string, thing.is.number);
+    const result = runParser(parser, [
+      ["a", 1],
+      ["b", 2]
+    ]);
+    expect(isSuccess(result) && result.right).toEqual(
+      new Map([
+        ["a", 1],
+        ["b", 2]
+      ])
+    );
+    expect(report.text(failure(runParser(parser, [["a", 1], ["b"]])))).toEqual(
+      "at [1]: expected a tuple of 2 elements, got 1"
+    );
+    const tags = runParser(set.fromArray(thing.is.string), ["a", "b", "a"]);
+    expect(isSuccess(tags) && tags.right).toEqual(new Set(["a", "b"]));
+    expect(
+      isSuccess(
+        runParser(
+          map(thing.is.number, n => n + 1),
+          1
+        )
+      )
+    ).toBeTruthy();
+  });
+});
+
+describe("unions", () => {
+  const event = union.tagged("type", {
+    created: object.of({ id: field.required("id", thing.is.number), name: field.required("name", thing.is.string) }),
+    deleted: object.of({ id: field.required("id", thing.is.number) })
+  });
+
+  test("tagged unions dispatch on the tag", () => {
+    const result = runParser(event, { type: "created", id: 1, name: "a" });
+    expect(isSuccess(result) && result.right).toEqual({ type: "created", id: 1, name: "a" });
+    const deleted = runParser(event, { type: "deleted", id: 2 });
+    if (isSuccess(deleted) && deleted.right.type === "deleted") {
+      const id: number = deleted.right.id;
+      expect(id).toEqual(2);
+    } else {
+      throw new Error("expected a deleted event");
+    }
+  });
+
+  test("tagged unions report the tags or the error of the variant", () => {
+    expect(failure(runParser(event, { type: "updated" }))).toEqual({
+      _tag: "UnknownTag",
+      field: "type",
+      tags: ["created", "deleted"],
+      value: { type: "updated" }
+    });
+    expect(report.text(failure(runParser(event, {})))).toEqual(
+      'at root: expected type to be one of "created", "deleted", got undefined'
+    );
+    expect(report.text(failure(runParserAll(event, { type: "created", id: "1" })))).toEqual(
+      'at .id: expected number, got string "1"\nat .name: missing required field name'
+    );
+  });
+
+  test("alternatives short-circuit", () => {
+    let runs = 0;
+    const counted = from((o: unknown) => {
+      ++runs;
+      return thing.is.number.runParser(o);
+    });
+    expect(isSuccess(runParser(or(thing.is.string, counted), "a"))).toBeTruthy();
+    expect(isSuccess(runParser(oneOf([thing.is.string, counted, counted]), "a"))).toBeTruthy();
+    expect(runs).toEqual(0);
+    expect(isSuccess(runParser(oneOf([thing.is.string, counted, counted]), 1))).toBeTruthy();
+    expect(runs).toEqual(1);
+  });
+
+  test("oneOf reports the error of each alternative", () => {
+    const parser = oneOf([thing.is.string, thing.is.number, thing.is.equalTo(null)]);
+    const result = runParser(parser, null);
+    const value: string | number | null | false = isSuccess(result) && result.right;
+    expect(value).toEqual(null);
+    expect(failure(runParser(parser, true)).causes.map(cause => !Array.isArray(cause) && cause._tag)).toEqual([
+      "NotOfType",
+      "NotOfType",
+      "NotEqual"
+    ]);
+  });
+});
+
+describe("string refinements", () => {
+  test("lengths", () => {
+    expect(isSuccess(runParser(string.minLength(2), "ab"))).toBeTruthy();
+    expect(failure(runParser(string.minLength(2), "a"))).toEqual({ _tag: "LengthMismatch", min: 2, value: "a" });
+    expect(report.text(failure(runParser(string.maxLength(2), "abc")))).toEqual(
+      'at root: expected a length of at most 2, got string "abc"'
+    );
+    expect(report.text(failure(runParser(string.nonEmpty, "")))).toEqual(
+      'at root: expected a length of at least 1, got string ""'
+    );
+    expect(failure(runParser(string.nonEmpty, 1))._tag).toEqual("NotOfType");
+  });
+
+  test("prefixes and whitespace", () => {
+    expect(isSuccess(runParser(string.startsWith("sk_"), "sk_123"))).toBeTruthy();
+    expect(failure(runParser(string.startsWith("sk_"), "pk_123"))).toEqual({
+      _tag: "MissingPrefix",
+      prefix: "sk_",
+      value: "pk_123"
+    });
+    expect(isSuccess(runParser(string.trimmed, "a b"))).toBeTruthy();
+    expect(isSuccess(runParser(string.trimmed, ""))).toBeTruthy();
+    expect(report.text(failure(runParser(string.trimmed, " a")))).toEqual(
+      'at root: expected no leading or trailing whitespace, got string " a"'
+    );
+  });
+});
+
+describe("numeric refinements", () => {
+  const message = (parser: Parser<unknown, unknown>, input: unknown): string => {
+    const result = runParser(parser, input);
+    return isFailure(result) ? report.text(result.left) : "";
+  };
+
+  test("finite numbers and integers", () => {
+    expect(isSuccess(runParser(number.finite, 0.5))).toBeTruthy();
+    [NaN, Infinity, -Infinity].forEach(n =>
+      expect(runParser(number.finite, n)).toEqual({ _tag: "Left", left: { _tag: "NotFinite", value: n } })
+    );
+    expect(runParser(number.integer, 1.5)).toEqual({ _tag: "Left", left: { _tag: "NotAnInteger", value: 1.5 } });
+    expect(message(number.integer, NaN)).toEqual("at root: expected an integer, got number NaN");
+    expect(isSuccess(runParser(number.safeInteger, Number.MAX_SAFE_INTEGER))).toBeTruthy();
+    expect(message(number.safeInteger, 2 ** 53)).toEqual(
+      "at root: expected a number in [-9007199254740991,9007199254740991], got number 9007199254740992"
+    );
+  });
+
+  test("signs and multiples", () => {
+    expect(message(number.positive, 0)).toEqual("at root: expected a number greater than 0, got number 0");
+    expect(isSuccess(runParser(number.nonNegative, 0))).toBeTruthy();
+    expect(runParser(number.nonNegative, -1)).toEqual({
+      _tag: "Left",
+      left: { _tag: "OutOfRange", min: 0, exclusive: false, value: -1 }
+    });
+    expect(isSuccess(runParser(number.multipleOf(0.1), 0.3))).toBeTruthy();
+    expect(message(number.multipleOf(5), 12)).toEqual("at root: expected a multiple of 5, got number 12");
+  });
+
+  test("fixed widths", () => {
+    expect(isSuccess(runParser(number.uint8, 255))).toBeTruthy();
+    expect(message(number.uint8, 256)).toEqual("at root: expected a number in [0,255], got number 256");
+    expect(runParser(number.int32, 0.5)).toEqual({ _tag: "Left", left: { _tag: "NotAnInteger", value: 0.5 } });
+    expect(isSuccess(runParser(number.int32, -2147483648))).toBeTruthy();
+    expect(isFailure(runParser(number.uint32, -1))).toBeTruthy();
+  });
+
+  test("bigints", () => {
+    expect(isSuccess(runParser(bigint.int64, BigInt("9223372036854775807")))).toBeTruthy();
+    expect(message(bigint.uint64, BigInt(-1))).toEqual(
+      "at root: expected a bigint in [0,18446744073709551615], got bigint -1n"
+    );
+    expect(message(bigint.range(BigInt(1)), BigInt(0))).toEqual(
+      "at root: expected a bigint of at least 1, got bigint 0n"
+    );
+    expect(runParser(bigint.int64, 1)).toEqual({ _tag: "Left", left: { _tag: "NotOfType", type: "bigint", value: 1 } });
+  });
+
+  test("the bounds of bigints are only built when they are used", () => {
+    const scope = globalThis as { BigInt?: unknown };
+    const original = scope.BigInt;
+    delete scope.BigInt;
+    try {
+      // load a fresh copy of the module rather than the one already imported
+      jest.resetModules();
+      expect(() => require("./index")).not.toThrow();
+    } finally {
+      scope.BigInt = original;
+    }
+  });
+});
+
+describe("brands", () => {
+  const email = brand(string.format.email, "Email");
+  const percentage = brand(number.range.inclusive(0, 100), "Percentage");
+  type Email = ParserReturnType<typeof email>;
+  type Percentage = ParserReturnType<typeof percentage>;
+
+  const discount = (price: number, off: Percentage) => price - (price * off) / 100;
+  const domain = (address: Email) => address.split("@")[1];
+
+  test("branded results are checked values", () => {
+    const off = runParser(percentage, 25);
+    expect(isSuccess(off) && discount(80, off.right)).toEqual(60);
+    const address = runParser(email, "a@example.com");
+    expect(isSuccess(address) && domain(address.right)).toEqual("example.com");
+    expect(isSuccess(runParser(percentage, 101))).toBeFalsy();
+  });
+
+  test("brands combine", () => {
+    const verified = brand(email, "Verified");
+    const result = runParser(verified, "a@example.com");
+    const value: (string & Brand<"Email"> & Brand<"Verified">) | false = isSuccess(result) && result.right;
+    expect(value && domain(value)).toEqual("example.com");
+  });
+});
+
+describe("transforms", () => {
+  test("defaults for missing fields", () => {
+    const options = object.strict({
+      retries: withDefault(field.optional("retries", thing.is.number), 3),
+      verbose: field.optional("verbose", thing.is.boolean)
+    });
+    const result = runParser(options, {});
+    const retries: number | false = isSuccess(result) && result.right.retries;
+    expect(retries).toEqual(3);
+    expect(runParser(options, { retries: 0 })).toEqual({ _tag: "Right", right: { retries: 0, verbose: undefined } });
+    expect(isSuccess(runParser(options, { retries: 1, other: true }))).toBeFalsy();
+  });
+
+  test("nullable and nullish", () => {
+    expect(isSuccess(runParser(thing.is.object, null))).toBeFalsy();
+    expect(runParser(nullable(thing.is.object), null)).toEqual({ _tag: "Right", right: null });
+    expect(isSuccess(runParser(nullable(thing.is.string), undefined))).toBeFalsy();
+    expect(failure(runParser(nullable(thing.is.string), 1))).toEqual({
+      _tag: "NotOfType",
+      type: "string",
+      value: 1
+    });
+    expect(runParser(nullish(thing.is.string), undefined)).toEqual({ _tag: "Right", right: undefined });
+    expect(runParser(nullish(thing.is.string), null)).toEqual({ _tag: "Right", right: null });
+    expect(isSuccess(runParserAll(nullish(thing.is.string), 1))).toBeFalsy();
+  });
+
+  test("catchError", () => {
+    const parser = catchError(number.range.inclusive(1, 10), (_, input) => (typeof input === "number" ? 10 : 1));
+    expect(runParser(parser, 5)).toEqual({ _tag: "Right", right: 5 });
+    expect(runParser(parser, 50)).toEqual({ _tag: "Right", right: 10 });
+    expect(runParserAll(parser, "5")).toEqual({ _tag: "Right", right: 1 });
+  });
+
+  test("preprocess", () => {
+    const name = preprocess(o => (typeof o === "string" ? o.trim() : o), string.nonEmpty);
+    expect(runParser(name, "  ada ")).toEqual({ _tag: "Right", right: "ada" });
+    expect(report.text(failure(runParserAll(name, "   ")))).toEqual(
+      'at root: expected a length of at least 1, got string ""'
+    );
+  });
+
+  test("refine keeps the path of the field", () => {
+    const range = refine(
+      object.of({
+        start: field.required("start", thing.is.number),
+        end: field.required("end", thing.is.number)
+      }),
+      r => r.end > r.start,
+      r => `${r.end} is not after ${r.start}`,
+      ["end"]
+    );
+    expect(isSuccess(runParser(range, { start: 1, end: 2 }))).toBeTruthy();
+    expect(report.text(failure(runParser(range, { start: 2, end: 1 })))).toEqual("at .end: 1 is not after 2");
+    expect(report.text(failure(runParserAll(range, { start: 2, end: 1 })))).toEqual("at .end: 1 is not after 2");
+    expect(report.text(failure(runParserAll(range, { start: 2 })))).toEqual("at .end: missing required field end");
+  });
+});
+
+describe("recursion guards", () => {
+  interface Node {
+    name: string;
+    children: Array<Node>;
+  }
+
+  const node = (options: RecursiveOptions): Parser<Node, unknown> => {
+    const parser: Parser<Node, unknown> = recursive(
+      () =>
+        object.of({
+          name: field.required("name", thing.is.string),
+          children: field.required("children", array.of(parser))
+        }),
+      options
+    );
+    return parser;
+  };
+
+  const parent: Node = { name: "parent", children: [] };
+  const child: Node = { name: "child", children: [parent] };
+  parent.children.push(child);
+
+  test("fails on circular references at their path", () => {
+    const parser = node({ detectCycles: true });
+    const result = runParser(parser, parent);
+    expect(isFailure(result) && report.text(result.left)).toEqual(
+      "at .children[0].children[0]: circular reference to a value that is being parsed"
+    );
+    const all = runParserAll(parser, { name: "root", children: [parent, { name: 1, children: [] }] });
+    expect(isFailure(all) && all.left.map(({ path, error }) => [path, (error as ParserError)._tag])).toEqual([
+      [["children", 0, "children", 0, "children", 0], "CircularReference"],
+      [["children", 1, "name"], "NotOfType"]
+    ]);
+  });
+
+  test("shared values that are not circular are parsed", () => {
+    const leaf = { name: "leaf", children: [] };
+    const result = runParser(node({ detectCycles: true }), { name: "root", children: [leaf, leaf] });
+    expect(isSuccess(result)).toBeTruthy();
+  });
+
+  test("limits the depth", () => {
+    const nested = (depth: number): Node => ({
+      name: String(depth),
+      children: depth === 0 ? [] : [nested(depth - 1)]
+    });
+    const parser = node({ maxDepth: 3 });
+    expect(isSuccess(runParser(parser, nested(2)))).toBeTruthy();
+    const result = runParser(parser, nested(3));
+    expect(isFailure(result) && report.text(result.left)).toEqual(
+      "at .children[0].children[0].children[0]: exceeded the maximum depth of 3"
+    );
+    // the parser can be run again after a failure
+    expect(isSuccess(runParser(parser, nested(2)))).toBeTruthy();
+  });
+});
+
+describe("deriving object parsers", () => {
+  const address = object.of({
+    city: field.required("city", thing.is.string),
+    zip: field.required("zip", thing.is.string)
+  });
+  const person = object.strict({
+    name: field.required("name", thing.is.string),
+    age: field.required("age", thing.is.number),
+    address: field.required("address", address)
+  });
+
+  test("partial", () => {
+    const parser = object.partial({
+      name: field.required("name", thing.is.string),
+      address: field.required("address", address)
+    });
+    expect(runParser(parser, {})).toEqual(succeed({ name: undefined, address: undefined }).runParser(undefined));
+    const result = runParser(parser, { address: {} });
+    expect(isFailure(result) && report.text(result.left)).toEqual("at .address: missing required field city");
+  });
+
+  test("deepPartial", () => {
+    const parser = object.deepPartial({ address: field.required("address", address) });
+    const result = runParser(parser, { address: { city: "Oslo" } });
+    expect(isSuccess(result) && result.right.address).toEqual({ city: "Oslo", zip: undefined });
+  });
+
+  test("pick and omit", () => {
+    const picked = object.pick(person, ["name"]);
+    const name: Parser<{ name: string }, unknown> = picked;
+    expect(runParser(name, { name: "a" })).toEqual(succeed({ name: "a" }).runParser(undefined));
+    // unknown keys are handled as the original parser does
+    expect(isFailure(runParser(picked, { name: "a", age: 1 }))).toBeTruthy();
+    const omitted = object.omit(person, ["address"]);
+    expect(runParser(omitted, { name: "a", age: 1 })).toEqual(succeed({ name: "a", age: 1 }).runParser(undefined));
+  });
+
+  test("extend and merge", () => {
+    const extended = object.extend(person, { age: field.required("age", thing.is.string) });
+    expect(isSuccess(runParser(extended, { name: "a", age: "old", address: { city: "b", zip: "c" } }))).toBeTruthy();
+    const merged = object.merge(address, object.passthrough({ country: field.required("country", thing.is.string) }));
+    expect(runParser(merged, { city: "a", zip: "b", country: "c", extra: 1 })).toEqual(
+      succeed({ city: "a", zip: "b", country: "c", extra: 1 }).runParser(undefined)
+    );
+  });
+
+  test("fail on parsers that are not objects", () => {
+    expect(() =>
+      object.pick(
+        map(thing.is.object, () => ({ a: "" })),
+        ["a"]
+      )
+    ).toThrow("object.pick expects a parser built by object.of, strict, passthrough or catchall");
+  });
+});
+
+describe("guards", () => {
+  interface Point {
+    x: number;
+    y: number;
+  }
+  const point = object.of({ x: field.required("x", thing.is.number), y: field.required("y", thing.is.number) });
+
+  test("validateInPlace succeeds with the input itself", () => {
+    const input = { x: 1, y: 2, label: "a" };
+    const result = validateInPlace(point, input);
+    expect(isSuccess(result) && result.right).toBe(input);
+    const parsed = runParser(point, input);
+    expect(isSuccess(parsed) && parsed.right).not.toBe(input);
+  });
+
+  test("validateInPlace fails on converted values", () => {
+    const parser = object.of({ ports: field.required("ports", array.of(coerce.integer)) });
+    expect(isSuccess(validateInPlace(parser, { ports: [80] }))).toBeTruthy();
+    const result = validateInPlace(parser, { ports: [80, "443"] });
+    expect(isFailure(result) && report.text(result.left)).toEqual(
+      "at .ports[1]: expected a value that is not converted by the parser"
+    );
+    expect(isSuccess(validateInPlace(thing.is.number, NaN))).toBeTruthy();
+  });
+
+  test("is narrows", () => {
+    const values: Array<unknown> = [{ x: 1, y: 2 }, { x: 1 }, "1", 2];
+    const points: Array<Point> = values.filter(is(point));
+    expect(points).toEqual([{ x: 1, y: 2 }]);
+    const numbers: Array<number> = values.filter(is(thing.is.number));
+    expect(numbers).toEqual([2]);
+    expect(values.filter(is(coerce.number))).toEqual([2]);
+  });
+
+  test("assert throws a structured error", () => {
+    const assertPoint: Assertion<Point> = assert(point);
+    const input: unknown = { x: 1, y: 2 };
+    assertPoint(input);
+    expect(input.x + input.y).toEqual(3);
+    expect(() => assertPoint({ x: 1 })).toThrow(ParseError);
+    try {
+      assertPoint({ x: "1", y: 2 });
+    } catch (e) {
+      expect((e as ParseError).error).toMatchObject({ _tag: "FieldMisMatch", field: "x" });
+      expect((e as ParseError).message).toEqual('at .x: expected number, got string "1"');
+    }
+    expect.assertions(4);
+  });
+});
+
+describe("function contracts", () => {
+  const numbers = func.contract(tuple(thing.is.number, thing.is.number), thing.is.number);
+
+  test("checks the arguments and the return value", () => {
+    const add = numbers(function add(a, b) {
+      return a + b;
+    });
+    const sum: number = add(1, 2);
+    expect(sum).toEqual(3);
+    const untyped = add as (...args: Array<unknown>) => number;
+    expect(() => untyped(1, "2")).toThrow(func.ContractError);
+    expect(() => untyped(1, "2")).toThrow('invalid arguments of add: at [1]: expected number, got string "2"');
+    expect(() => untyped(1)).toThrow("invalid arguments of add: at root: expected a tuple of 2 elements, got 1");
+    const broken = numbers(((a: number) => String(a)) as any);
+    try {
+      broken(1, 2);
+    } catch (e) {
+      expect((e as func.ContractError).position).toEqual("return value");
+      expect((e as func.ContractError).error).toMatchObject({ _tag: "NotOfType", value: "1" });
+    }
+    expect.assertions(6);
+  });
+
+  test("calls the function with the results of the parsers", () => {
+    const increment = func.contract(
+      tuple(coerce.integer),
+      thing.is.number
+    )(function(this: { by: number }, n) {
+      return n + this.by;
+    });
+    expect(increment.call({ by: 2 }, "1" as any)).toEqual(3);
+  });
+
+  test("checks the values of promises", async () => {
+    const fetchCount = func.contract(
+      tuple(thing.is.string),
+      thing.is.number
+    )(async (key: string) => (key === "a" ? 1 : ((key as unknown) as number)));
+    const count: Promise<number> = fetchCount("a");
+    expect(await count).toEqual(1);
+    await expect(fetchCount("b")).rejects.toThrow('invalid return value: at root: expected number, got string "b"');
+  });
+
+  test("can be left out of production", () => {
+    const environment = process.env.NODE_ENV;
+    const identity = (n: number) => n;
+    try {
+      process.env.NODE_ENV = "production";
+      expect(func.contract(tuple(thing.is.number), thing.is.number, { developmentOnly: true })(identity)).toBe(
+        identity
+      );
+      expect(func.contract(tuple(thing.is.number), thing.is.number)(identity)).not.toBe(identity);
+    } finally {
+      process.env.NODE_ENV = environment;
+    }
+  });
+});
+
+describe("literals", () => {
+  enum Direction {
+    Up,
+    Down
+  }
+  enum Color {
+    Red = "red",
+    Green = "green"
+  }
+
+  test("literal infers the union of the values", () => {
+    const level = literal("low", "high", 3, true, null);
+    const result = runParser(level, "low");
+    const value: "low" | "high" | 3 | true | null | false = isSuccess(result) ? result.right : false;
+    expect(value).toEqual("low");
+    expect(isSuccess(runParser(level, null))).toBeTruthy();
+    expect(runParser(level, "3")).toEqual({
+      _tag: "Left",
+      left: { _tag: "NotOneOf", values: ["low", "high", 3, true, null], value: "3" }
+    });
+    const failed = runParser(level, "medium");
+    expect(isFailure(failed) && report.text(failed.left)).toEqual(
+      'at root: expected one of "low", "high", 3, true, null, got string "medium"'
+    );
+  });
+
+  test("enumOf leaves out reverse mappings", () => {
+    const direction: Parser<Direction, unknown> = enumOf(Direction);
+    expect(isSuccess(runParser(direction, Direction.Down))).toBeTruthy();
+    expect(runParser(direction, "Down")).toEqual({
+      _tag: "Left",
+      left: { _tag: "NotOneOf", values: [0, 1], value: "Down" }
+    });
+    const color: Parser<Color, unknown> = enumOf(Color);
+    expect(isSuccess(runParser(color, "red"))).toBeTruthy();
+    expect(isFailure(runParser(color, "Red"))).toBeTruthy();
+  });
+
+  test("enumOf keeps members with numeric-looking names", () => {
+    expect(runParser(enumOf({ Infinity: "inf", "": "empty", "1": "one" }), null)).toEqual({
+      _tag: "Left",
+      left: { _tag: "NotOneOf", values: ["one", "inf", "empty"], value: null }
+    });
+    // as compiled from `enum { Infinity = 1, Two = 2 }`
+    const compiled = { Infinity: 1, "1": "Infinity", Two: 2, "2": "Two" };
+    expect(runParser(enumOf(compiled), null)).toEqual({
+      _tag: "Left",
+      left: { _tag: "NotOneOf", values: [1, 2], value: null }
+    });
+  });
+
+  test("keyOf", () => {
+    const handlers = { get: () => 1, put: () => 2 };
+    const method: Parser<"get" | "put", unknown> = keyOf(handlers);
+    expect(isSuccess(runParser(method, "put"))).toBeTruthy();
+    expect(isFailure(runParser(method, "toString"))).toBeTruthy();
+  });
+});
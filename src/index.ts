@@ -2,16 +2,77 @@ import { sequenceT, sequenceS } from "fp-ts/lib/Apply";
 import * as E from "fp-ts/lib/Either";
 import { Either, isLeft, isRight, left, Left, right, Right } from "fp-ts/lib/Either";
 import _ from "lodash";
-import { PrimitiveString, TypeNameToPrimitive } from "./util";
+import { defineValue, PrimitiveString, TypeNameToPrimitive } from "./util";
 import { Lazy } from "fp-ts/lib/function";
+import { NonEmptyArray } from "fp-ts/lib/NonEmptyArray";
+import {
+  CircularReferenceError,
+  ElementMismatchError,
+  Field as FieldName,
+  FieldDoesNotExistError,
+  FieldMismatchError,
+  InvalidFormatError,
+  KeyMismatchError,
+  LengthMismatchError,
+  MaxDepthExceededError,
+  MissingPrefixError,
+  NoAlternativeMatchedError,
+  NotAMultipleOfError,
+  NotAnArrayError,
+  NotAnIntegerError,
+  NotEqualError,
+  NotFiniteError,
+  NotOneOfError,
+  NotOfTypeError,
+  NotTrimmedError,
+  OfExcludedTypeError,
+  OutOfRangeError,
+  Path,
+  PathError,
+  PredicateMismatchError,
+  UnexpectedKeysError,
+  UnknownTagError
+} from "./errors";
+
+import { Formatted, formats, StringFormat } from "./format";
+import { Constraint, fieldMeta, Meta, UnknownKeys } from "./meta";
+import { ParseError } from "./report";
+
+export * from "./errors";
+export * from "./format";
+export * from "./meta";
+export * from "./report";
 
 export type ParseResult<Error, R> = Either<Error, R>;
-export type Parser<R, E, O = unknown> = { runParser: (o: O) => ParseResult<E, R> };
+
+export type ParseAllResult<Error, R> = Either<NonEmptyArray<PathError<Error>>, R>;
+
+export type Parser<R, E, O = unknown> = {
+  runParser: (o: O) => ParseResult<E, R>;
+  runParserAll?: (o: O) => ParseAllResult<E, R>;
+  meta?: Meta;
+};
 export type ParserReturnType<P> = P extends Parser<infer R, infer _, infer _> ? R : never;
+export type ParserErrorType<P> = P extends Parser<infer _, infer E, infer _> ? E : never;
 
-export const from = <R, E, O>(parser: (o: O) => ParseResult<E, R>): Parser<R, E, O> => ({ runParser: parser });
+/**
+ * Create a parser from a function. If `parserAll` is not given, the accumulating mode of the parser
+ * reports the single error of `parser` at the current path.
+ */
+export const from = <R, E, O>(
+  parser: (o: O) => ParseResult<E, R>,
+  parserAll?: (o: O) => ParseAllResult<E, R>
+): Parser<R, E, O> => ({ runParser: parser, runParserAll: parserAll });
 export const fromResult = <R, E, I>(e: Either<E, R>): Parser<R, E, I> => from(_ => e);
 
+/**
+ * Attach a description of what `parser` checks, used to derive other representations of the parser.
+ */
+export const withMeta = <R, E, O>(parser: Parser<R, E, O>, meta: Meta | undefined): Parser<R, E, O> => ({
+  ...parser,
+  meta
+});
+
 export function succeed<R, E, B>(result: R): Parser<R, never, B> {
   return of(result);
 }
@@ -37,29 +98,71 @@ declare module "fp-ts/lib/HKT" {
   }
 }
 
+/**
+ * Prefix the paths of accumulated errors with `segment`, used when descending into a field or element.
+ */
+const under = <E, R>(segment: string | number, result: ParseAllResult<E, R>): ParseAllResult<E, R> =>
+  E.either.mapLeft(
+    result,
+    errors => errors.map(({ path, error }) => ({ path: [segment, ...path], error })) as NonEmptyArray<PathError<E>>
+  );
+
 export const mapError = <A, E, R, D>(parser: Parser<A, E, R>, ed: (e: E) => D): Parser<A, D, R> => {
-  return from(o => {
-    const result = parser.runParser(o);
-    return E.either.mapLeft(result, ed);
-  });
+  return withMeta(
+    from(
+      o => {
+        const result = parser.runParser(o);
+        return E.either.mapLeft(result, ed);
+      },
+      o =>
+        E.either.mapLeft(
+          runParserAll(parser, o),
+          errors => errors.map(({ path, error }) => ({ path, error: ed(error) })) as NonEmptyArray<PathError<D>>
+        )
+    ),
+    { _tag: "MapError", parser }
+  );
 };
 
 const parserFunctor = {
   URI,
-  map: <A, E, B, C>(v: Parser<A, E, C>, f: (a: A) => B): Parser<B, E, C> => from((o: C) => E.map(f)(v.runParser(o)))
+  map: <A, E, B, C>(v: Parser<A, E, C>, f: (a: A) => B): Parser<B, E, C> =>
+    withMeta(
+      from(
+        (o: C) => E.map(f)(v.runParser(o)),
+        (o: C) => E.map(f)(runParserAll(v, o))
+      ),
+      { _tag: "Map", parser: v }
+    )
 } as const;
 
 const parserApplicative = {
   ...parserFunctor,
   of: <A, E, C>(a: A): Parser<A, E, C> => from((_: C) => right(a)),
   ap: <A, B, E, C>(fab: Parser<(a: A) => B, E, C>, a: Parser<A, E, C>): Parser<B, E, C> =>
-    from((o: C) => E.ap(a.runParser(o))(fab.runParser(o)))
+    from(
+      (o: C) => E.ap(a.runParser(o))(fab.runParser(o)),
+      (o: C) => {
+        const fres = runParserAll(fab, o);
+        const ares = runParserAll(a, o);
+        if (isLeft(fres)) {
+          return isLeft(ares) ? left([...fres.left, ...ares.left] as NonEmptyArray<PathError<E>>) : fres;
+        }
+        return isLeft(ares) ? ares : right(fres.right(ares.right));
+      }
+    )
 } as const;
 
 const parserMonad = {
   ...parserApplicative,
   chain: <A, B, E, C>(fa: Parser<A, E, C>, afb: (a: A) => Parser<B, E, C>): Parser<B, E, C> =>
-    from((o: C) => E.chain((a: A): Either<E, B> => afb(a).runParser(o))(fa.runParser(o)))
+    withMeta(
+      from(
+        (o: C) => E.chain((a: A): Either<E, B> => afb(a).runParser(o))(fa.runParser(o)),
+        (o: C) => E.chain((a: A): ParseAllResult<E, B> => runParserAll(afb(a), o))(runParserAll(fa, o))
+      ),
+      { _tag: "Chain", parser: fa }
+    )
 } as const;
 
 export const parser = {
@@ -67,23 +170,230 @@ export const parser = {
   mapError
 } as const;
 
-export const map = parserMonad.map;
+export function map<A, E, B, C>(v: Parser<A, E, C>, f: (a: A) => B): Parser<B, E, C> {
+  return parserMonad.map(v, f);
+}
 export const of = parserMonad.of;
 export const ap = parserMonad.ap;
 export const chain = parserMonad.chain;
 
 export const compose = <A, B, C, E, D>(vb: Parser<B, E, A>, vc: Parser<C, D, B>): Parser<C, E | D, A> => {
-  return chain(vb, (b: B): Parser<C, E | D, A> => from((_: A) => vc.runParser(b)));
+  return withMeta(
+    chain(
+      vb,
+      (b: B): Parser<C, E | D, A> =>
+        from(
+          (_: A) => vc.runParser(b),
+          (_: A) => runParserAll(vc, b)
+        )
+    ),
+    { _tag: "Compose", first: vb, second: vc }
+  );
 };
 
+/**
+ * Options of `recursive` that guard against inputs that contain themselves, such as object graphs with
+ * references back to their parents, and against deeply nested inputs.
+ */
+export interface RecursiveOptions {
+  /** a name for the definition, as for the `name` parameter of `recursive` */
+  name?: string;
+  /** fail with a `CircularReference` error when the parser reaches an input that it is already parsing */
+  detectCycles?: boolean;
+  /** fail with a `MaxDepthExceeded` error when the parser is nested more than `maxDepth` times */
+  maxDepth?: number;
+}
+
+export type RecursionError = CircularReferenceError | MaxDepthExceededError;
+
 /**
  * Due to javascript not being a "lazy" language, we have to embed recursive references to
  * parsers in a thunk.
  *
+ * Circular inputs make a recursive parser recurse until the stack overflows, unless it is given the
+ * `detectCycles` option. Each input being parsed is then tracked by the parser.
+ *
  * @param body A thunk that returns a parser, possibly one that references itself.
+ * @param name A name for the definition, used when deriving other representations such as JSON Schemas.
+ */
+export function recursive<R, E, I>(body: Lazy<Parser<R, E, I>>, name?: string): Parser<R, E, I>;
+export function recursive<R, E, I>(
+  body: Lazy<Parser<R, E, I>>,
+  options: RecursiveOptions
+): Parser<R, E | RecursionError, I>;
+export function recursive<R, E, I>(
+  body: Lazy<Parser<R, E, I>>,
+  options: string | RecursiveOptions = {}
+): Parser<R, E | RecursionError, I> {
+  const { name, detectCycles = false, maxDepth }: RecursiveOptions =
+    typeof options === "string" ? { name: options } : options;
+  const meta: Meta = { _tag: "Recursive", body, name, detectCycles, maxDepth };
+  if (!detectCycles && maxDepth === undefined) {
+    return withMeta(
+      from(
+        o => body().runParser(o),
+        o => runParserAll(body(), o)
+      ),
+      meta
+    );
+  }
+  const active = new Set<unknown>();
+  let depth = 0;
+  type Error = E | RecursionError;
+  const guarded = <T>(o: I, run: (o: I) => T, fail: (error: RecursionError) => T): T => {
+    if (maxDepth !== undefined && depth >= maxDepth) {
+      return fail({ _tag: "MaxDepthExceeded", maxDepth, value: o });
+    }
+    const tracked = detectCycles && typeof o === "object" && o !== null;
+    if (tracked && active.has(o)) {
+      return fail({ _tag: "CircularReference", value: o });
+    }
+    if (tracked) {
+      active.add(o);
+    }
+    ++depth;
+    try {
+      return run(o);
+    } finally {
+      --depth;
+      active.delete(o);
+    }
+  };
+  return withMeta(
+    from(
+      o => guarded<ParseResult<Error, R>>(o, o => body().runParser(o), left),
+      o =>
+        guarded<ParseAllResult<Error, R>>(
+          o,
+          o => runParserAll(body(), o),
+          error => left([{ path: [], error }])
+        )
+    ),
+    meta
+  );
+}
+
+/**
+ * A marker for values that were checked by a parser branded with `B`. Brands combine, so a value can be
+ * both `Brand<"Email">` and `Brand<"Lowercase">`.
+ */
+export interface Brand<B extends string> {
+  readonly __brand: { readonly [K in B]: true };
+}
+
+/**
+ * Mark the results of `parser` with the brand `name`, so that functions can require values that were
+ * checked by it, such as `type Email = ParserReturnType<typeof email>`. This only changes the type of the
+ * parser.
+ */
+export function brand<R, E, I, B extends string>(parser: Parser<R, E, I>, name: B): Parser<R & Brand<B>, E, I> {
+  return parser as Parser<R & Brand<B>, E, I>;
+}
+
+/**
+ * Succeed with `value` when `parser` succeeds with `undefined`, such as when an optional field is missing.
+ */
+export function withDefault<R, E, I>(parser: Parser<R | undefined, E, I>, value: R): Parser<R, E, I> {
+  return withMeta(
+    map(parser, r => (r === undefined ? value : r)),
+    { _tag: "Default", parser, value }
+  );
+}
+
+/**
+ * Accept `null` as well as the inputs accepted by `parser`.
+ */
+export function nullable<R, E, I>(parser: Parser<R, E, I>): Parser<R | null, E, I> {
+  return withMeta(
+    from<R | null, E, I>(
+      o => (o === null ? right(null) : parser.runParser(o)),
+      o => (o === null ? right(null) : runParserAll(parser, o))
+    ),
+    { _tag: "Union", alternatives: [thing.is.equalTo(null), parser] }
+  );
+}
+
+/**
+ * Accept `null` and `undefined` as well as the inputs accepted by `parser`.
+ */
+export function nullish<R, E, I>(parser: Parser<R, E, I>): Parser<R | null | undefined, E, I> {
+  return withMeta(
+    from<R | null | undefined, E, I>(
+      o => (o === null ? right(null) : o === undefined ? right(undefined) : parser.runParser(o)),
+      o => (o === null ? right(null) : o === undefined ? right(undefined) : runParserAll(parser, o))
+    ),
+    { _tag: "Union", alternatives: [thing.is.equalTo(null), thing.is.equalTo(undefined), parser] }
+  );
+}
+
+/**
+ * Succeed with the value given by `fallback` for the error and the input when `parser` fails, so that the
+ * resulting parser never fails.
+ */
+export function catchError<R, E, I>(parser: Parser<R, E, I>, fallback: (error: E, input: I) => R): Parser<R, never, I> {
+  return withMeta(
+    from(o => {
+      const result = parser.runParser(o);
+      return isLeft(result) ? right(fallback(result.left, o)) : result;
+    }),
+    { _tag: "Catch", parser }
+  );
+}
+
+/**
+ * Normalize the input with `f` before parsing it with `parser`, such as trimming strings or splitting lists.
+ */
+export function preprocess<R, E, I>(f: (input: I) => unknown, parser: Parser<R, E, unknown>): Parser<R, E, I> {
+  return withMeta(
+    from(
+      o => parser.runParser(f(o)),
+      o => runParserAll(parser, f(o))
+    ),
+    { _tag: "Preprocess", parser }
+  );
+}
+
+/**
+ * Wrap `error` in the errors of the fields and elements along `path` of `value`, as if it was the error of
+ * a parser of the value at `path`.
+ */
+const nest = (path: Path, value: unknown, error: unknown): unknown => {
+  if (path.length === 0) {
+    return error;
+  }
+  const [segment, ...rest] = path;
+  const cause = nest(rest, value === null || value === undefined ? undefined : (value as any)[segment], error);
+  return typeof segment === "number"
+    ? { _tag: "ElementMisMatch", index: segment, value, cause }
+    : { _tag: "FieldMisMatch", field: segment, value, cause };
+};
+
+/**
+ * Check the results of `parser` with `check`, such as for constraints between the fields of an object. When
+ * the check fails, the error given by `error` is reported at `path` inside of the input.
+ *
+ * @param path where the error is reported, such as `["end"]` for a check that `end` is after `start`
  */
-export function recursive<R, E, I>(body: Lazy<Parser<R, E, I>>): Parser<R, E, I> {
-  return from(o => body().runParser(o));
+export function refine<R, E, I, D>(
+  parser: Parser<R, E, I>,
+  check: (result: R) => boolean,
+  error: (result: R) => D,
+  path: Path = []
+): Parser<R, E | D | FieldMismatchError | ElementMismatchError, I> {
+  type Error = E | D | FieldMismatchError | ElementMismatchError;
+  return withMeta(
+    from(
+      o =>
+        E.chain((r: R): Either<Error, R> => (check(r) ? right(r) : left(nest(path, o, error(r)) as Error)))(
+          parser.runParser(o)
+        ),
+      o =>
+        E.chain((r: R): ParseAllResult<Error, R> => (check(r) ? right(r) : left([{ path, error: error(r) }])))(
+          runParserAll(parser, o) as ParseAllResult<Error, R>
+        )
+    ),
+    { _tag: "Refinement", parser, constraint: { _tag: "Custom" } }
+  );
 }
 
 /**
@@ -97,14 +407,91 @@ export function both<A, B, E, I>(fst: Parser<A, E, I>, snd: Parser<B, E, I>): Pa
 }
 
 /**
- * Run two parsers on an unknown, succeeding if either succeed and failing if both fail.
+ * Run two parsers on an unknown, succeeding if either succeed and failing if both fail. `snd` is only run
+ * if `fst` fails.
  */
-export function or<A, B, I>(fst: Parser<A, string, I>, snd: Parser<B, string, I>): Parser<A | B, string, I> {
-  return from(o => {
-    const fres = fst.runParser(o);
-    const sres = snd.runParser(o);
-    return isSuccess(fres) ? fres : isSuccess(sres) ? sres : left(`${fres.left} and ${sres.left}`);
-  });
+export function or<A, B, E, D, I>(
+  fst: Parser<A, E, I>,
+  snd: Parser<B, D, I>
+): Parser<A | B, NoAlternativeMatchedError<E | D>, I> {
+  return oneOf<[Parser<A, E, I>, Parser<B, D, I>], I>([fst, snd]);
+}
+
+/**
+ * Run each of `parsers` in order, succeeding with the first that succeeds, and failing with the error of
+ * each of them if none does.
+ */
+export function oneOf<P extends Array<Parser<unknown, unknown, I>>, I = unknown>(
+  parsers: P
+): Parser<ParserReturnType<P[number]>, NoAlternativeMatchedError<ParserErrorType<P[number]>>, I> {
+  type Error = ParserErrorType<P[number]>;
+  type Result = ParserReturnType<P[number]>;
+  return withMeta(
+    from<Result, NoAlternativeMatchedError<Error>, I>(
+      o => {
+        const causes: Array<Error> = [];
+        for (const parser of parsers) {
+          const result = parser.runParser(o);
+          if (isSuccess(result)) {
+            return result as Right<Result>;
+          }
+          causes.push(result.left as Error);
+        }
+        return left({ _tag: "NoAlternativeMatched", value: o, causes });
+      },
+      o => {
+        const causes: Array<NonEmptyArray<PathError<Error>>> = [];
+        for (const parser of parsers) {
+          const result = runParserAll(parser, o);
+          if (isSuccess(result)) {
+            return result as Right<Result>;
+          }
+          causes.push(result.left as NonEmptyArray<PathError<Error>>);
+        }
+        return left([{ path: [], error: { _tag: "NoAlternativeMatched", value: o, causes } }]);
+      }
+    ),
+    { _tag: "Union", alternatives: parsers }
+  );
+}
+
+export namespace union {
+  /**
+   * The union of the results of the variants, each with its tag in `field`.
+   */
+  export type TaggedReturnType<K extends string, V extends Record<string, Parser<unknown, unknown, unknown>>> = {
+    [T in keyof V]: ParserReturnType<V[T]> & { [F in K]: T };
+  }[keyof V];
+
+  /**
+   * Parse an object with the parser of `variants` selected by the value of its `field`, failing with an
+   * `UnknownTag` error if there is none. The tag is added to the result of the variant if it is an object
+   * without it, so that the result can be narrowed on `field`.
+   *
+   * @param field the field holding the tag
+   * @param variants the parser of each variant, by tag
+   */
+  export function tagged<K extends string, V extends Record<string, Parser<unknown, unknown, unknown>>>(
+    field: K,
+    variants: V
+  ): Parser<TaggedReturnType<K, V>, ParserErrorType<V[keyof V]> | UnknownTagError | thing.is.TypeMismatchError> {
+    type Error = ParserErrorType<V[keyof V]> | UnknownTagError | thing.is.TypeMismatchError;
+    const tags = Object.keys(variants);
+    const withTag = (tag: string) => (result: unknown) =>
+      typeof result === "object" && result !== null && !Array.isArray(result) && !(field in result)
+        ? { ...result, [field]: tag }
+        : result;
+    return withMeta(
+      chain(thing.is.object as Parser<object, Error>, o => {
+        const tag = (o as any)[field];
+        if (typeof tag !== "string" || !variants.hasOwnProperty(tag)) {
+          return fail({ _tag: "UnknownTag", field, tags, value: o });
+        }
+        return map(variants[tag] as Parser<unknown, Error>, withTag(tag)) as Parser<TaggedReturnType<K, V>, Error>;
+      }),
+      { _tag: "Tagged", field, variants }
+    );
+  }
 }
 
 /**
@@ -115,7 +502,18 @@ export function runParser<R, E, I>(parser: Parser<R, E, I>, input: I) {
 }
 
 /**
- * Given an anonymous object and a parser, return the object or throw an exception if parsing fails.
+ * Like `runParser`, but keep going after the first failure, collecting every error along with the
+ * path to the value that caused it.
+ */
+export function runParserAll<R, E, I>(parser: Parser<R, E, I>, input: I): ParseAllResult<E, R> {
+  if (parser.runParserAll !== undefined) {
+    return parser.runParserAll(input);
+  }
+  return E.either.mapLeft(parser.runParser(input), (error): NonEmptyArray<PathError<E>> => [{ path: [], error }]);
+}
+
+/**
+ * Given an anonymous object and a parser, return the object or throw a `ParseError` if parsing fails.
  *
  * @param input value to parse from
  * @param parser the parser to run
@@ -123,65 +521,207 @@ export function runParser<R, E, I>(parser: Parser<R, E, I>, input: I) {
 export function runParserEx<Result, Error, Input>(parser: Parser<Result, Error, Input>, input: Input): Result | never {
   const result = parser.runParser(input);
   if (isFailure(result)) {
-    throw new Error(`${JSON.stringify(result.left)}`);
+    throw new ParseError(result.left);
   }
   return result.right;
 }
 
-export type PredicateMismatchError = { _tag: "PredicateMismatch"; value: unknown; customMessage: string };
+/**
+ * The path of the first value of `result` that is not the value at the same path of `input`, if any. Objects
+ * are compared by their keys in `result`, as object parsers leave out the keys they do not list.
+ */
+const changedAt = (input: unknown, result: unknown): Path | undefined => {
+  // NaN is not equal to itself
+  if (result === input || (result !== result && input !== input)) {
+    return undefined;
+  }
+  if (
+    typeof result !== "object" ||
+    typeof input !== "object" ||
+    result === null ||
+    input === null ||
+    Array.isArray(result) !== Array.isArray(input) ||
+    (Array.isArray(result) && result.length !== (input as Array<unknown>).length)
+  ) {
+    return [];
+  }
+  for (const key of Object.keys(result)) {
+    const path = changedAt((input as any)[key], (result as any)[key]);
+    if (path !== undefined) {
+      return [Array.isArray(result) ? +key : key, ...path];
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Check that `input` conforms to `parser`, succeeding with the input itself rather than with the result of the
+ * parser, which may be a copy of it (as `object.of` builds new objects). Inputs that the parser converts,
+ * such as the strings accepted by `coerce.number`, fail at the path of the value that was converted.
+ */
+export function validateInPlace<R, E, I>(
+  parser: Parser<R, E, I>,
+  input: I
+): ParseResult<E | PredicateMismatchError | FieldMismatchError | ElementMismatchError, R> {
+  const result = parser.runParser(input);
+  if (isFailure(result)) {
+    return result;
+  }
+  const path = changedAt(input, result.right);
+  if (path === undefined) {
+    return right((input as unknown) as R);
+  }
+  const value = path.length === 0 ? input : _.get(input, path);
+  const error: PredicateMismatchError = {
+    _tag: "PredicateMismatch",
+    value,
+    customMessage: "expected a value that is not converted by the parser"
+  };
+  return left(nest(path, input, error) as PredicateMismatchError | FieldMismatchError | ElementMismatchError);
+}
+
+/**
+ * A type guard for the inputs that conform to `parser`, as checked by `validateInPlace`, such as for
+ * `Array.prototype.filter`.
+ */
+export function is<R, E>(parser: Parser<R, E>): (u: unknown) => u is R {
+  return (u: unknown): u is R => isSuccess(validateInPlace(parser, u));
+}
+
+export type Assertion<R> = (u: unknown) => asserts u is R;
+
+/**
+ * An assertion function for the inputs that conform to `parser`, as checked by `validateInPlace`, throwing
+ * a `ParseError` otherwise. TypeScript only narrows with assertion functions declared with an explicit type,
+ * such as `const assertUser: Assertion<User> = assert(user)`.
+ */
+export function assert<R, E>(parser: Parser<R, E>): Assertion<R> {
+  return (u: unknown) => {
+    const result = validateInPlace(parser, u);
+    if (isFailure(result)) {
+      throw new ParseError(result.left);
+    }
+  };
+}
 
 export const predicate = <K extends PrimitiveString, I>(type: K) => (
   p: (s: TypeNameToPrimitive<K>) => boolean,
   template: (s: TypeNameToPrimitive<K>) => string = s => `${s} did not satisfy custom constraint`
 ): Parser<TypeNameToPrimitive<K>, thing.is.TypeMismatchError | PredicateMismatchError, I> =>
-  from(o =>
-    E.chain(
-      (
-        s: TypeNameToPrimitive<K>
-      ): Either<thing.is.TypeMismatchError | PredicateMismatchError, TypeNameToPrimitive<K>> =>
-        p(s) ? right(s) : left({ _tag: "PredicateMismatch", value: o, customMessage: template(s) })
-    )(thing.is.of(type).runParser(o))
+  withMeta(
+    from(o =>
+      E.chain(
+        (
+          s: TypeNameToPrimitive<K>
+        ): Either<thing.is.TypeMismatchError | PredicateMismatchError, TypeNameToPrimitive<K>> =>
+          p(s) ? right(s) : left({ _tag: "PredicateMismatch", value: o, customMessage: template(s) })
+      )(thing.is.of(type).runParser(o))
+    ),
+    { _tag: "Refinement", parser: thing.is.of(type), constraint: { _tag: "Custom" } }
+  );
+
+/**
+ * Describe the constraint checked by a parser built with `predicate`.
+ */
+const constrained = <R, E, I>(parser: Parser<R, E, I>, constraint: Constraint): Parser<R, E, I> =>
+  withMeta(parser, { ...(parser.meta as Extract<Meta, { _tag: "Refinement" }>), constraint });
+
+/**
+ * Check the results of `parser` with `check`, failing with the error given by `error` otherwise.
+ */
+const refined = <R, E, Error>(
+  parser: Parser<R, E>,
+  check: (r: R) => boolean,
+  error: (r: R) => Error,
+  constraint: Constraint
+): Parser<R, E | Error> =>
+  withMeta(
+    chain(parser as Parser<R, E | Error>, r => (check(r) ? succeed(r) : fail(error(r)))),
+    { _tag: "Refinement", parser, constraint }
+  );
+
+/**
+ * Check that the results of `parser` are within the bounds that are given.
+ */
+const bounded = <N extends number | bigint, E>(
+  parser: Parser<N, E>,
+  min: N | undefined,
+  max: N | undefined,
+  exclusive: boolean
+): Parser<N, E | OutOfRangeError> => {
+  const bounds = { ...(min === undefined ? {} : { min }), ...(max === undefined ? {} : { max }), exclusive };
+  return refined(
+    parser,
+    n =>
+      (min === undefined || (exclusive ? n > min : n >= min)) &&
+      (max === undefined || (exclusive ? n < max : n <= max)),
+    (value): OutOfRangeError => ({ _tag: "OutOfRange", ...bounds, value }),
+    { _tag: "Range", ...bounds }
   );
+};
+
+/**
+ * A parser built by `build` the first time it is used or inspected, for parsers that cannot be built when the
+ * module loads, such as ones with bigint bounds on runtimes without `BigInt`.
+ */
+const lazily = <R, E, I>(build: Lazy<Parser<R, E, I>>): Parser<R, E, I> => {
+  let built: Parser<R, E, I> | undefined;
+  const parser = () => built || (built = build());
+  return {
+    runParser: o => parser().runParser(o),
+    runParserAll: o => runParserAll(parser(), o),
+    get meta() {
+      return parser().meta;
+    }
+  };
+};
 
 export namespace thing {
   export namespace is {
-    export type TypeMismatchError = { _tag: "NotOfType"; type: PrimitiveString; value: unknown };
-    export type EqualityError = { _tag: "NotEqual"; to: unknown; value: unknown };
+    export type TypeMismatchError = NotOfTypeError;
+    export type EqualityError = NotEqualError;
 
     /**
      * Ensure that the input value is one the many primitive javascript objects.
      * @param type string representing the `typeof` string for the object.
      */
     export function of<K extends PrimitiveString, I>(type: K): Parser<TypeNameToPrimitive<K>, TypeMismatchError, I> {
-      return from(o => {
-        if (typeof o === type) {
-          return right((o as unknown) as TypeNameToPrimitive<K>);
-        } else {
-          return left({ _tag: "NotOfType", type, value: o });
-        }
-      });
+      return withMeta(
+        from(o => {
+          if (typeof o === type) {
+            return right((o as unknown) as TypeNameToPrimitive<K>);
+          } else {
+            return left({ _tag: "NotOfType", type, value: o });
+          }
+        }),
+        { _tag: "Type", type }
+      );
     }
 
     export const symbol = of("symbol");
     export const string = of("string");
     export const func = of("function");
-    export const object = chain(of("object") as Parser<object, TypeMismatchError | EqualityError, unknown>, e =>
-      e === null ? fail({ _tag: "NotEqual", to: null, value: e } as EqualityError) : succeed(e)
+    export const object: Parser<object, TypeMismatchError> = withMeta(
+      from(o =>
+        typeof o === "object" && o !== null ? right(o as object) : left({ _tag: "NotOfType", type: "object", value: o })
+      ),
+      { _tag: "Object" }
     );
     export const undef = of("undefined");
     export const bigint = of("bigint");
     export const boolean = of("boolean");
     export const number = of("number");
-    export const array = predicate("object")(Array.isArray);
+    export const array = withMeta(predicate("object")(Array.isArray), { _tag: "Array" });
 
     /**
      * Check that the input value is equal to `object` (_.isEqual, works with objects).
      */
-    export function equalTo<K, I>(object: K): Parser<K, string, I> {
-      return from(o =>
-        _.isEqual(object, o)
-          ? right((o as unknown) as K)
-          : left(`${JSON.stringify(o)} is not equal to ${JSON.stringify(object)}`)
+    export function equalTo<K, I>(object: K): Parser<K, EqualityError, I> {
+      return withMeta(
+        from(o =>
+          _.isEqual(object, o) ? right((o as unknown) as K) : left({ _tag: "NotEqual", to: object, value: o })
+        ),
+        { _tag: "Literal", value: object }
       );
     }
 
@@ -192,11 +732,14 @@ export namespace thing {
        */
       export function of<K extends PrimitiveString, I>(
         type: K
-      ): Parser<TypeNameToPrimitive<Exclude<PrimitiveString, K>>, string, I> {
-        return from(o =>
-          isFailure(is.of(type).runParser(o))
-            ? right((o as unknown) as TypeNameToPrimitive<Exclude<PrimitiveString, K>>)
-            : left(`${JSON.stringify(o)} is of type ${JSON.stringify(type)}`)
+      ): Parser<TypeNameToPrimitive<Exclude<PrimitiveString, K>>, OfExcludedTypeError, I> {
+        return withMeta(
+          from(o =>
+            isFailure(is.of(type).runParser(o))
+              ? right((o as unknown) as TypeNameToPrimitive<Exclude<PrimitiveString, K>>)
+              : left({ _tag: "OfExcludedType", type, value: o })
+          ),
+          { _tag: "Not", type }
         );
       }
 
@@ -213,62 +756,130 @@ export namespace thing {
   }
 }
 
+export type LiteralValue = string | number | boolean | bigint | null | undefined;
+
+/**
+ * Check that the input is one of `values`, compared with `===`. The type of the result is the union of the
+ * literal types of the values, such as `"a" | "b" | 3` for `literal("a", "b", 3)`.
+ */
+export function literal<L extends Array<LiteralValue>>(...values: L): Parser<L[number], NotOneOfError> {
+  const allowed = new Set<unknown>(values);
+  return withMeta(
+    from(o => (allowed.has(o) ? right(o as L[number]) : left({ _tag: "NotOneOf", values, value: o }))),
+    { _tag: "Enum", values }
+  );
+}
+
+/**
+ * Check that the input is one of the values of a TypeScript `enum`, leaving out the reverse mappings from the
+ * values of numeric members to their names.
+ */
+export function enumOf<T extends Record<string, string | number>>(e: T): Parser<T[keyof T], NotOneOfError> {
+  // a reverse mapping is keyed by the value of a numeric member, and gives the name of that member
+  const reverse = (key: string) => typeof e[e[key]] === "number" && String(e[e[key]]) === key;
+  const values = Object.keys(e)
+    .filter(key => !reverse(key))
+    .map(key => e[key]);
+  return literal(...values) as Parser<T[keyof T], NotOneOfError>;
+}
+
+/**
+ * Check that the input is one of the own enumerable keys of `o`.
+ */
+export function keyOf<T extends object>(o: T): Parser<keyof T & string, NotOneOfError> {
+  return literal(...Object.keys(o)) as Parser<keyof T & string, NotOneOfError>;
+}
+
 // dummy variable so we can define `predicate` in child modules
 const p = predicate;
 
 export namespace boolean {
-  export const isTrue = predicate("boolean")(
-    s => s,
-    () => `expected true, got false`
+  export const isTrue = withMeta(
+    predicate("boolean")(
+      s => s,
+      () => `expected true, got false`
+    ),
+    { _tag: "Literal", value: true }
   ) as Parser<true, PredicateMismatchError | thing.is.TypeMismatchError>;
 
-  export const isFalse = predicate("boolean")(
-    s => !s,
-    () => `expected false, got true`
+  export const isFalse = withMeta(
+    predicate("boolean")(
+      s => !s,
+      () => `expected false, got true`
+    ),
+    { _tag: "Literal", value: false }
   ) as Parser<false, PredicateMismatchError | thing.is.TypeMismatchError>;
 }
 
 export namespace field {
-  export type Field = string | number | symbol;
+  export type Field = FieldName;
+
+  export type FieldParserError = FieldDoesNotExistError;
 
-  export type FieldParserError = { _tag: "FieldDoesNotExistOn"; on: unknown; field: Field };
+  /**
+   * Errors of a field parser. Failures of `parser` are wrapped in a `FieldMisMatch` by `runParser`,
+   * and reported as they are (under the field's path) by `runParserAll`.
+   */
+  export type FieldError<E> = E | FieldMismatchError<E> | thing.is.TypeMismatchError;
+
+  const atField = <R, E>(field: string | number, parser: Parser<R, E>, o: object): Parser<R, FieldError<E>> =>
+    from(
+      () =>
+        E.either.mapLeft(
+          parser.runParser((o as any)[field]),
+          (cause): FieldError<E> => ({ _tag: "FieldMisMatch", field, value: o, cause })
+        ),
+      () => under(field, runParserAll(parser, (o as any)[field]))
+    );
 
   export function optional<R, E>(
     field: string | number,
     parser: Parser<R, E, unknown>
-  ): Parser<R | undefined, E | thing.is.TypeMismatchError | thing.is.EqualityError, unknown> {
-    return chain(
-      thing.is.object,
-      (): Parser<R | undefined, E | thing.is.TypeMismatchError | thing.is.EqualityError, unknown> =>
-        from(o => {
-          if (field in (o as any)) {
-            return parser.runParser((o as any)[field]);
-          } else {
-            return right(undefined);
-          }
-        })
+  ): Parser<R | undefined, FieldError<E>, unknown> {
+    return withMeta(
+      chain(
+        thing.is.object,
+        (o: object): Parser<R | undefined, FieldError<E>> =>
+          field in o ? atField(field, parser, o) : succeed(undefined)
+      ),
+      { _tag: "Field", field, parser, optional: true }
     );
   }
 
   export function required<R, E>(
     field: string | number,
     parser: Parser<R, E>
-  ): Parser<R, E | FieldParserError | thing.is.TypeMismatchError | thing.is.EqualityError, unknown> {
-    return chain(
-      thing.is.object,
-      (o: object): Parser<R, E | FieldParserError | thing.is.TypeMismatchError | thing.is.EqualityError> => {
-        if (field in (o as any)) {
-          return fromResult(parser.runParser((o as any)[field]));
-        } else {
-          return fail({ _tag: "FieldDoesNotExistOn", on: o, field });
+  ): Parser<R, FieldError<E> | FieldParserError, unknown> {
+    return withMeta(
+      chain(
+        thing.is.object,
+        (o: object): Parser<R, FieldError<E> | FieldParserError> => {
+          if (field in o) {
+            return atField(field, parser, o);
+          } else {
+            const error: FieldParserError = { _tag: "FieldDoesNotExistOn", field, value: o };
+            return from(
+              () => left(error),
+              () => left([{ path: [field], error }])
+            );
+          }
         }
-      }
+      ),
+      { _tag: "Field", field, parser, optional: false }
     );
   }
 }
 
 export namespace bigint {
   export const predicate = p("bigint");
+
+  /**
+   * Check that the input is a bigint within `min` and `max` (both included), when they are given.
+   */
+  export const range = (min?: bigint, max?: bigint) => bounded(thing.is.bigint, min, max, false);
+
+  export const int64 = lazily(() => range(BigInt("-9223372036854775808"), BigInt("9223372036854775807")));
+  export const uint64 = lazily(() => range(BigInt(0), BigInt("18446744073709551615")));
 }
 
 export namespace undef {}
@@ -276,15 +887,335 @@ export namespace undef {}
 export namespace object {
   export const predicate = p("object");
 
+  export type Spec = Record<string, Parser<unknown, unknown, unknown>>;
+  export type SpecReturnType<S extends Spec> = { [K in keyof S]: ParserReturnType<S[K]> };
+  export type SpecErrorType<S extends Spec> = ParserErrorType<S[keyof S]>;
+
+  /**
+   * The keys of the input read by the parsers of `spec`, which may differ from the keys of the result.
+   */
+  const listedKeys = (spec: Spec): Array<string> =>
+    Object.keys(spec).map(key => {
+      const meta = fieldMeta(spec[key]);
+      return meta !== undefined ? String(meta.field) : key;
+    });
+
+  function struct(spec: Spec, unknownKeys: UnknownKeys): Parser<object, unknown, unknown> {
+    const keys = Object.keys(spec);
+    const listed = listedKeys(spec);
+    const unlisted = (o: object) => Object.keys(o).filter(key => listed.indexOf(key) === -1);
+    return withMeta(
+      chain(thing.is.object as Parser<object, unknown>, o =>
+        from(
+          () => {
+            const result: Record<string, unknown> = {};
+            for (const key of keys) {
+              const each = spec[key].runParser(o);
+              if (isLeft(each)) {
+                return each;
+              }
+              result[key] = each.right;
+            }
+            const extra = unlisted(o);
+            switch (unknownKeys._tag) {
+              case "Strict":
+                if (extra.length > 0) {
+                  return left({ _tag: "UnexpectedKeys", keys: extra, value: o } as UnexpectedKeysError);
+                }
+                break;
+              case "Passthrough":
+                extra.forEach(key => defineValue(result, key, (o as any)[key]));
+                break;
+              case "Catchall":
+                for (const key of extra) {
+                  const each = unknownKeys.parser.runParser((o as any)[key]);
+                  if (isLeft(each)) {
+                    return left({
+                      _tag: "FieldMisMatch",
+                      field: key,
+                      value: o,
+                      cause: each.left
+                    } as FieldMismatchError);
+                  }
+                  defineValue(result, key, each.right);
+                }
+            }
+            return right(result);
+          },
+          () => {
+            const result: Record<string, unknown> = {};
+            const errors: Array<PathError<unknown>> = [];
+            const collect = (key: string, each: ParseAllResult<unknown, unknown>) => {
+              if (isLeft(each)) {
+                errors.push(...each.left);
+              } else {
+                defineValue(result, key, each.right);
+              }
+            };
+            keys.forEach(key => collect(key, runParserAll(spec[key], o)));
+            const extra = unlisted(o);
+            switch (unknownKeys._tag) {
+              case "Strict":
+                if (extra.length > 0) {
+                  errors.push({ path: [], error: { _tag: "UnexpectedKeys", keys: extra, value: o } });
+                }
+                break;
+              case "Passthrough":
+                extra.forEach(key => defineValue(result, key, (o as any)[key]));
+                break;
+              case "Catchall":
+                const catchall = unknownKeys.parser;
+                extra.forEach(key => collect(key, under(key, runParserAll(catchall, (o as any)[key]))));
+            }
+            return errors.length > 0 ? left(errors as NonEmptyArray<PathError<unknown>>) : right(result);
+          }
+        )
+      ),
+      { _tag: "Struct", fields: spec, unknownKeys }
+    );
+  }
+
   /**
    * Check that object satisfies certain conditions on it's fields.
-   * Does not ensure that the object has more fields than listed.
+   * Does not ensure that the object has more fields than listed, the keys that are not listed are dropped
+   * from the result (see `strict`, `passthrough` and `catchall` for other ways to handle them).
+   *
+   * The input is checked to be an object once up front, so that a non-object is reported as a
+   * single error rather than once per field.
+   *
+   * @param spec the parser for each key of the resulting object, usually built with `field.required`
+   * or `field.optional`
    */
-  export const of = sequenceS(parser);
+  export function of<S extends Spec>(
+    spec: S
+  ): Parser<SpecReturnType<S>, SpecErrorType<S> | thing.is.TypeMismatchError, unknown> {
+    return struct(spec, { _tag: "Strip" }) as Parser<SpecReturnType<S>, SpecErrorType<S> | thing.is.TypeMismatchError>;
+  }
+
+  /**
+   * Like `of`, explicitly dropping the keys of the input that are not listed from the result.
+   */
+  export const strip = of;
+
+  /**
+   * Like `of`, but fail with an `UnexpectedKeys` error if the input has any keys that are not listed.
+   */
+  export function strict<S extends Spec>(
+    spec: S
+  ): Parser<SpecReturnType<S>, SpecErrorType<S> | UnexpectedKeysError | thing.is.TypeMismatchError, unknown> {
+    return struct(spec, { _tag: "Strict" }) as Parser<
+      SpecReturnType<S>,
+      SpecErrorType<S> | UnexpectedKeysError | thing.is.TypeMismatchError
+    >;
+  }
+
+  /**
+   * Like `of`, but keep the keys of the input that are not listed in the result, as they are.
+   */
+  export function passthrough<S extends Spec>(
+    spec: S
+  ): Parser<SpecReturnType<S> & Record<string, unknown>, SpecErrorType<S> | thing.is.TypeMismatchError, unknown> {
+    return struct(spec, { _tag: "Passthrough" }) as Parser<
+      SpecReturnType<S> & Record<string, unknown>,
+      SpecErrorType<S> | thing.is.TypeMismatchError
+    >;
+  }
+
+  /**
+   * Like `of`, but parse the value of each key of the input that is not listed with `parser`, and keep
+   * them in the result.
+   */
+  export function catchall<S extends Spec, R, E>(
+    spec: S,
+    parser: Parser<R, E>
+  ): Parser<SpecReturnType<S> & Record<string, R>, SpecErrorType<S> | field.FieldError<E>, unknown> {
+    return struct(spec, { _tag: "Catchall", parser }) as Parser<
+      SpecReturnType<S> & Record<string, R>,
+      SpecErrorType<S> | field.FieldError<E>
+    >;
+  }
+
+  export type PartialReturnType<S extends Spec> = { [K in keyof S]: ParserReturnType<S[K]> | undefined };
+
+  export type DeepPartial<T> = {
+    [K in keyof T]: (T[K] extends Array<unknown> ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K]) | undefined;
+  };
+
+  /**
+   * Make the fields of `spec` built with `field.required` optional, recursively if `deep`.
+   */
+  const optionalFields = (spec: Spec, deep: boolean): Spec =>
+    _.mapValues(spec, parser => {
+      const meta = parser.meta;
+      if (meta === undefined || meta._tag !== "Field") {
+        return parser;
+      }
+      const value = meta.parser.meta;
+      const nested =
+        deep && value !== undefined && value._tag === "Struct"
+          ? struct(optionalFields(value.fields, deep), value.unknownKeys)
+          : meta.parser;
+      return field.optional(meta.field, nested);
+    });
+
+  /**
+   * Like `of`, with every field built with `field.required` made optional, such as for partial updates.
+   * Other parsers of `spec` are kept as they are.
+   */
+  export function partial<S extends Spec>(
+    spec: S
+  ): Parser<PartialReturnType<S>, SpecErrorType<S> | thing.is.TypeMismatchError, unknown> {
+    return struct(optionalFields(spec, false), { _tag: "Strip" }) as Parser<
+      PartialReturnType<S>,
+      SpecErrorType<S> | thing.is.TypeMismatchError
+    >;
+  }
+
+  /**
+   * Like `partial`, also making the fields of the objects nested in `spec` optional.
+   */
+  export function deepPartial<S extends Spec>(
+    spec: S
+  ): Parser<DeepPartial<SpecReturnType<S>>, SpecErrorType<S> | thing.is.TypeMismatchError, unknown> {
+    return struct(optionalFields(spec, true), { _tag: "Strip" }) as Parser<
+      DeepPartial<SpecReturnType<S>>,
+      SpecErrorType<S> | thing.is.TypeMismatchError
+    >;
+  }
+
+  /**
+   * The description of an object parser, which the parsers derived from it are built from.
+   */
+  const structOf = (parser: Parser<unknown, unknown>, combinator: string): Extract<Meta, { _tag: "Struct" }> => {
+    const meta = parser.meta;
+    if (meta === undefined || meta._tag !== "Struct") {
+      throw new Error(`object.${combinator} expects a parser built by object.of, strict, passthrough or catchall`);
+    }
+    return meta;
+  };
+
+  /**
+   * Derive a parser of the `keys` of the objects parsed by `parser`, handling unknown keys as `parser` does.
+   *
+   * @param parser a parser built by `of`, `strict`, `passthrough` or `catchall`
+   */
+  export function pick<R, E, K extends keyof R & string>(parser: Parser<R, E>, keys: Array<K>): Parser<Pick<R, K>, E> {
+    const meta = structOf(parser, "pick");
+    return struct(_.pick(meta.fields, keys), meta.unknownKeys) as Parser<Pick<R, K>, E>;
+  }
+
+  /**
+   * Derive a parser of the objects parsed by `parser` without `keys`, handling unknown keys as `parser` does.
+   *
+   * @param parser a parser built by `of`, `strict`, `passthrough` or `catchall`
+   */
+  export function omit<R, E, K extends keyof R & string>(parser: Parser<R, E>, keys: Array<K>): Parser<Omit<R, K>, E> {
+    const meta = structOf(parser, "omit");
+    return struct(_.omit(meta.fields, keys), meta.unknownKeys) as Parser<Omit<R, K>, E>;
+  }
+
+  /**
+   * Derive a parser of the objects parsed by `parser` with the keys of `spec`, which replace the keys of the
+   * same name.
+   *
+   * @param parser a parser built by `of`, `strict`, `passthrough` or `catchall`
+   */
+  export function extend<R, E, S extends Spec>(
+    parser: Parser<R, E>,
+    spec: S
+  ): Parser<Omit<R, keyof S> & SpecReturnType<S>, E | SpecErrorType<S>> {
+    const meta = structOf(parser, "extend");
+    return struct({ ...meta.fields, ...spec }, meta.unknownKeys) as Parser<
+      Omit<R, keyof S> & SpecReturnType<S>,
+      E | SpecErrorType<S>
+    >;
+  }
+
+  /**
+   * Combine the keys of two object parsers, with the keys of `second` replacing those of `first` of the same
+   * name. Unknown keys are handled as `second` does.
+   */
+  export function merge<R1, E1, R2, E2>(
+    first: Parser<R1, E1>,
+    second: Parser<R2, E2>
+  ): Parser<Omit<R1, keyof R2> & R2, E1 | E2> {
+    const meta = structOf(second, "merge");
+    return struct({ ...structOf(first, "merge").fields, ...meta.fields }, meta.unknownKeys) as Parser<
+      Omit<R1, keyof R2> & R2,
+      E1 | E2
+    >;
+  }
 }
 
 export namespace func {
   export const predicate = p("function");
+
+  /**
+   * Thrown by the functions wrapped by a `contract` when their arguments or their return value fail to parse,
+   * carrying the structured error of the parser. Errors of the arguments are reported at the index of the
+   * argument.
+   */
+  export class ContractError<E = unknown> extends ParseError<E> {
+    constructor(public readonly position: "arguments" | "return value", error: E, name: string = "") {
+      super(error);
+      this.name = "ContractError";
+      this.message = `invalid ${position}${name === "" ? "" : ` of ${name}`}: ${this.message}`;
+    }
+  }
+
+  export interface ContractOptions {
+    /**
+     * Only check the arguments and return values when `process.env.NODE_ENV` is not `"production"`, leaving the
+     * functions as they are otherwise.
+     */
+    developmentOnly?: boolean;
+  }
+
+  /**
+   * Wrap a function so that its arguments are parsed by `args` and its return value by `returns`, throwing a
+   * `ContractError` when either fails. Functions returning promises are checked when their promises resolve.
+   */
+  export type Contract<A extends Array<unknown>, R> = <F extends (...args: A) => R | PromiseLike<R>>(
+    f: F
+  ) => (...args: A) => ReturnType<F>;
+
+  const production = (): boolean => typeof process !== "undefined" && process.env.NODE_ENV === "production";
+
+  /**
+   * Check the functions that cross a boundary, such as plugins and functions from JavaScript code, on every
+   * call. The wrapped functions are called with the results of `args`, and return the results of `returns`.
+   *
+   * @param args the parser of the arguments, such as a `tuple`
+   * @param returns the parser of the return value, or of the value that its promise resolves to
+   */
+  export function contract<A extends Array<unknown>, EA, R, ER>(
+    args: Parser<A, EA>,
+    returns: Parser<R, ER>,
+    options: ContractOptions = {}
+  ): Contract<A, R> {
+    return <F extends (...args: A) => R | PromiseLike<R>>(f: F) => {
+      if (options.developmentOnly && production()) {
+        return (f as unknown) as (...args: A) => ReturnType<F>;
+      }
+      const checked = (value: unknown): R => {
+        const result = returns.runParser(value);
+        if (isFailure(result)) {
+          throw new ContractError("return value", result.left, f.name);
+        }
+        return result.right;
+      };
+      return function(this: unknown, ...input: A) {
+        const parsed = args.runParser(input);
+        if (isFailure(parsed)) {
+          throw new ContractError("arguments", parsed.left, f.name);
+        }
+        const result = f.apply(this, parsed.right);
+        return typeof result === "object" && result !== null && typeof (result as any).then === "function"
+          ? (result as PromiseLike<R>).then(checked)
+          : checked(result);
+      } as (...args: A) => ReturnType<F>;
+    };
+  }
 }
 
 export namespace symbol {
@@ -295,16 +1226,116 @@ export namespace string {
   export const predicate = p("string");
 
   export const length = (n: number) =>
-    predicate(
-      s => s.length === n,
-      s => `${JSON.stringify(s)} is required to be of length ${n}, got ${s.length}`
+    constrained(
+      predicate(
+        s => s.length === n,
+        s => `${JSON.stringify(s)} is required to be of length ${n}, got ${s.length}`
+      ),
+      { _tag: "Length", min: n, max: n }
     );
 
   export const pattern = (pattern: string | RegExp) =>
-    predicate(
-      s => s.match(pattern) !== null,
-      s => `${JSON.stringify(s)} does not match pattern ${JSON.stringify(pattern)}`
+    constrained(
+      predicate(
+        s => s.match(pattern) !== null,
+        s => `${JSON.stringify(s)} does not match pattern ${JSON.stringify(pattern)}`
+      ),
+      { _tag: "Pattern", pattern }
+    );
+
+  /**
+   * Check the input is a string satisfying `check`, failing with the error given by `error` otherwise.
+   */
+  const refine = <Error>(
+    check: (s: string) => boolean,
+    error: (s: string) => Error,
+    constraint: Constraint
+  ): Parser<string, Error | thing.is.TypeMismatchError> =>
+    withMeta(
+      chain(thing.is.string as Parser<string, Error | thing.is.TypeMismatchError>, s =>
+        check(s) ? succeed(s) : fail(error(s))
+      ),
+      { _tag: "Refinement", parser: thing.is.string, constraint }
+    );
+
+  export const minLength = (n: number) =>
+    refine(
+      s => s.length >= n,
+      (value): LengthMismatchError => ({ _tag: "LengthMismatch", min: n, value }),
+      { _tag: "Length", min: n }
     );
+
+  export const maxLength = (n: number) =>
+    refine(
+      s => s.length <= n,
+      (value): LengthMismatchError => ({ _tag: "LengthMismatch", max: n, value }),
+      { _tag: "Length", max: n }
+    );
+
+  export const nonEmpty = minLength(1);
+
+  export const startsWith = (prefix: string) =>
+    refine(
+      s => s.slice(0, prefix.length) === prefix,
+      (value): MissingPrefixError => ({ _tag: "MissingPrefix", prefix, value }),
+      { _tag: "Pattern", pattern: `^${_.escapeRegExp(prefix)}` }
+    );
+
+  /**
+   * Check that a string has no leading or trailing whitespace.
+   */
+  export const trimmed = refine(
+    s => s.trim() === s,
+    (value): NotTrimmedError => ({ _tag: "NotTrimmed", value }),
+    { _tag: "Pattern", pattern: "^(\\S([\\s\\S]*\\S)?)?$" }
+  );
+
+  /**
+   * Parsers of strings in standard formats, failing with an `InvalidFormat` error naming the format.
+   */
+  export namespace format {
+    export function of<F extends StringFormat>(
+      format: F
+    ): Parser<string, InvalidFormatError | thing.is.TypeMismatchError> {
+      return refine(formats[format], (value): InvalidFormatError => ({ _tag: "InvalidFormat", format, value }), {
+        _tag: "Format",
+        format
+      });
+    }
+
+    /**
+     * Like `of`, giving a string branded with its format, so that it cannot be confused with unchecked strings.
+     */
+    export function branded<F extends StringFormat>(
+      format: F
+    ): Parser<Formatted<F>, InvalidFormatError | thing.is.TypeMismatchError> {
+      return of(format) as Parser<Formatted<F>, InvalidFormatError | thing.is.TypeMismatchError>;
+    }
+
+    export const email = of("email");
+    /** an absolute `http`, `https` or `ftp` URL */
+    export const url = of("url");
+    /** an absolute URI with any scheme, such as `mailto:a@b.c` or `urn:isbn:0451450523` */
+    export const uri = of("uri");
+    /** a UUID of versions 1 to 7 */
+    export const uuid = of("uuid");
+    export const date = of("date");
+    export const time = of("time");
+    export const dateTime = of("date-time");
+    export const duration = of("duration");
+    export const ipv4 = of("ipv4");
+    export const ipv6 = of("ipv6");
+    /** an IPv4 or IPv6 address range, such as `10.0.0.0/8` */
+    export const cidr = of("cidr");
+    export const hostname = of("hostname");
+    export const semver = of("semver");
+    export const base64 = of("base64");
+    export const hex = of("hex");
+    /** a phone number in the E.164 format, such as `+14155552671` */
+    export const e164 = of("e164");
+    /** lowercase words separated by single hyphens, such as `my-blog-post` */
+    export const slug = of("slug");
+  }
 }
 
 export namespace number {
@@ -312,23 +1343,113 @@ export namespace number {
 
   export namespace range {
     export const exclusive = (from: number, to: number) =>
-      predicate(
-        n => n > from && n < to,
-        n => `${n} is not in range (${from},${to})`
+      constrained(
+        predicate(
+          n => n > from && n < to,
+          n => `${n} is not in range (${from},${to})`
+        ),
+        { _tag: "Range", min: from, max: to, exclusive: true }
       );
 
     export const inclusive = (from: number, to: number) =>
-      predicate(
-        n => n >= from && n <= to,
-        n => `${n} is not in range [${from},${to}]`
+      constrained(
+        predicate(
+          n => n >= from && n <= to,
+          n => `${n} is not in range [${from},${to}]`
+        ),
+        { _tag: "Range", min: from, max: to, exclusive: false }
       );
   }
+
+  /**
+   * Check that the input is a number other than `NaN`, `Infinity` and `-Infinity`.
+   */
+  export const finite = refined(
+    thing.is.number,
+    n => isFinite(n),
+    (value): NotFiniteError => ({ _tag: "NotFinite", value }),
+    { _tag: "Finite" }
+  );
+
+  export const integer = refined(
+    thing.is.number,
+    n => Number.isInteger(n),
+    (value): NotAnIntegerError => ({ _tag: "NotAnInteger", value }),
+    { _tag: "Integer" }
+  );
+
+  /**
+   * Check that the input is an integer that numbers represent exactly, as opposed to `2 ** 53`.
+   */
+  export const safeInteger = bounded(integer, Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER, false);
+
+  export const positive = bounded(thing.is.number, 0, undefined, true);
+  export const nonNegative = bounded(thing.is.number, 0, undefined, false);
+
+  export const multipleOf = (n: number) =>
+    refined(
+      thing.is.number,
+      m => {
+        // allow for the rounding of decimal multiples, such as `0.3` of `0.1`
+        const quotient = m / n;
+        return Math.abs(quotient - Math.round(quotient)) <= Number.EPSILON * Math.abs(quotient);
+      },
+      (value): NotAMultipleOfError => ({ _tag: "NotAMultipleOf", multipleOf: n, value }),
+      { _tag: "MultipleOf", multipleOf: n }
+    );
+
+  export const int8 = bounded(integer, -128, 127, false);
+  export const int16 = bounded(integer, -32768, 32767, false);
+  export const int32 = bounded(integer, -2147483648, 2147483647, false);
+  export const uint8 = bounded(integer, 0, 255, false);
+  export const uint16 = bounded(integer, 0, 65535, false);
+  export const uint32 = bounded(integer, 0, 4294967295, false);
 }
 
+/**
+ * Parse each element of an array with the parser for its index, in both the fail-fast and accumulating modes.
+ */
+const elements = <V, E>(parserAt: (index: number) => Parser<V, E>) => ({
+  runParser: (o: Array<unknown>): ParseResult<array.ArrayParserError<E>, Array<V>> => {
+    const values: Array<V> = [];
+    for (let index = 0; index < o.length; ++index) {
+      const result = parserAt(index).runParser(o[index]);
+      if (isLeft(result)) {
+        return left({ _tag: "ElementMisMatch", index, value: o, cause: result.left });
+      }
+      values.push(result.right);
+    }
+    return right(values);
+  },
+  runParserAll: (o: Array<unknown>): ParseAllResult<array.ArrayParserError<E>, Array<V>> => {
+    const values: Array<V> = [];
+    const errors: Array<PathError<array.ArrayParserError<E>>> = [];
+    o.forEach((each, index) => {
+      const result = under(index, runParserAll(parserAt(index), each));
+      if (isLeft(result)) {
+        errors.push(...result.left);
+      } else {
+        values.push(result.right);
+      }
+    });
+    return errors.length > 0 ? left(errors as NonEmptyArray<PathError<array.ArrayParserError<E>>>) : right(values);
+  }
+});
+
+const elementCount = (n: number) => (n === 1 ? "1 element" : `${n} elements`);
+
+const anyArray: Parser<Array<unknown>, NotAnArrayError> = withMeta(
+  from(o => (Array.isArray(o) ? right(o) : left({ _tag: "NotAnArray", value: o }))),
+  { _tag: "Array" }
+);
+
 export namespace array {
-  export type ArrayParserError<A, I> =
-    | { _tag: "NotAnArray"; input: I }
-    | { _tag: "ElementMisMatch"; array: Array<A>; element: A };
+  /**
+   * Errors of an array parser. Failures of the element parser are wrapped in an `ElementMisMatch` by
+   * `runParser`, and reported as they are (under the element's index) by `runParserAll`.
+   */
+  export type ArrayParserError<E> = E | NotAnArrayError | ElementMismatchError<E>;
+
   /**
    * Check that the input value is an array satisfying constraints.
    *
@@ -336,18 +1457,228 @@ export namespace array {
    */
   export function of<Value, Error, Input>(
     parser: Parser<Value, Error>
-  ): Parser<Array<Value>, Error | ArrayParserError<unknown, Input>, Input> {
-    return from(o => {
-      if (Array.isArray(o)) {
-        const results = o.map(each => parser.runParser(each)).filter(isFailure);
-        if (results.length > 0) {
-          return left({ _tag: "ElementMisMatch", array: o, element: results[0] });
-        } else {
-          return right(o);
+  ): Parser<Array<Value>, ArrayParserError<Error>, Input> {
+    const each = elements(() => parser);
+    return withMeta(
+      from(
+        o => (Array.isArray(o) ? each.runParser(o) : left({ _tag: "NotAnArray", value: o })),
+        o => (Array.isArray(o) ? each.runParserAll(o) : left([{ path: [], error: { _tag: "NotAnArray", value: o } }]))
+      ),
+      { _tag: "Array", element: parser }
+    );
+  }
+
+  /**
+   * Refine the arrays parsed by `parser` with a predicate on the whole array.
+   */
+  const refine = <V, E>(
+    parser: Parser<Array<V>, E>,
+    p: (values: Array<V>) => boolean,
+    template: (values: Array<V>) => string,
+    constraint: Constraint
+  ): Parser<Array<V>, E | PredicateMismatchError> =>
+    withMeta(
+      chain(parser as Parser<Array<V>, E | PredicateMismatchError>, values =>
+        p(values)
+          ? succeed(values)
+          : fail({ _tag: "PredicateMismatch", value: values, customMessage: template(values) })
+      ),
+      { _tag: "Refinement", parser, constraint }
+    );
+
+  /**
+   * Check that an array has at least `n` elements.
+   *
+   * @param parser the parser of the array, such as `array.of(...)`, defaults to accepting any array
+   */
+  export function minLength(n: number): Parser<Array<unknown>, NotAnArrayError | PredicateMismatchError>;
+  export function minLength<V, E>(n: number, parser: Parser<Array<V>, E>): Parser<Array<V>, E | PredicateMismatchError>;
+  export function minLength(
+    n: number,
+    parser: Parser<Array<unknown>, unknown> = anyArray
+  ): Parser<Array<unknown>, unknown> {
+    return refine(
+      parser,
+      values => values.length >= n,
+      values => `expected at least ${elementCount(n)}, got ${values.length}`,
+      { _tag: "Items", min: n }
+    );
+  }
+
+  /**
+   * Check that an array has at most `n` elements.
+   *
+   * @param parser the parser of the array, such as `array.of(...)`, defaults to accepting any array
+   */
+  export function maxLength(n: number): Parser<Array<unknown>, NotAnArrayError | PredicateMismatchError>;
+  export function maxLength<V, E>(n: number, parser: Parser<Array<V>, E>): Parser<Array<V>, E | PredicateMismatchError>;
+  export function maxLength(
+    n: number,
+    parser: Parser<Array<unknown>, unknown> = anyArray
+  ): Parser<Array<unknown>, unknown> {
+    return refine(
+      parser,
+      values => values.length <= n,
+      values => `expected at most ${elementCount(n)}, got ${values.length}`,
+      { _tag: "Items", max: n }
+    );
+  }
+
+  /**
+   * Check that no two elements of an array are deeply equal.
+   *
+   * @param parser the parser of the array, such as `array.of(...)`, defaults to accepting any array
+   */
+  export function unique(): Parser<Array<unknown>, NotAnArrayError | PredicateMismatchError>;
+  export function unique<V, E>(parser: Parser<Array<V>, E>): Parser<Array<V>, E | PredicateMismatchError>;
+  export function unique(parser: Parser<Array<unknown>, unknown> = anyArray): Parser<Array<unknown>, unknown> {
+    const duplicate = (values: Array<unknown>) =>
+      _.findIndex(values, (value, index) => _.some(values.slice(0, index), other => _.isEqual(value, other)));
+    return refine(
+      parser,
+      values => duplicate(values) === -1,
+      values => {
+        const index = duplicate(values);
+        const first = _.findIndex(values, value => _.isEqual(value, values[index]));
+        return `expected unique elements, element ${index} is equal to element ${first}`;
+      },
+      { _tag: "Unique" }
+    );
+  }
+}
+
+export namespace nonEmptyArray {
+  /**
+   * Like `array.of`, also checking that the array has at least one element.
+   */
+  export function of<Value, Error, Input>(
+    parser: Parser<Value, Error>
+  ): Parser<NonEmptyArray<Value>, array.ArrayParserError<Error> | PredicateMismatchError, Input> {
+    return array.minLength(1, array.of(parser)) as Parser<
+      NonEmptyArray<Value>,
+      array.ArrayParserError<Error> | PredicateMismatchError,
+      Input
+    >;
+  }
+}
+
+/**
+ * Check that the input is an array with an element for each parser, and parse each element with the parser
+ * at its index.
+ */
+export function tuple<P extends Array<Parser<unknown, unknown, unknown>>>(
+  ...parsers: P
+): Parser<
+  { [K in keyof P]: ParserReturnType<P[K]> },
+  array.ArrayParserError<ParserErrorType<P[number]>> | PredicateMismatchError,
+  unknown
+> {
+  type Result = { [K in keyof P]: ParserReturnType<P[K]> };
+  type Error = array.ArrayParserError<ParserErrorType<P[number]>> | PredicateMismatchError;
+  const each = elements(index => parsers[index] as Parser<unknown, ParserErrorType<P[number]>>);
+  const check = (o: unknown): Either<Error, Array<unknown>> =>
+    !Array.isArray(o)
+      ? left({ _tag: "NotAnArray", value: o })
+      : o.length !== parsers.length
+      ? left({
+          _tag: "PredicateMismatch",
+          value: o,
+          customMessage: `expected a tuple of ${elementCount(parsers.length)}, got ${o.length}`
+        })
+      : right(o);
+  const parser: Parser<Array<unknown>, Error> = from(
+    o => E.chain<Error, Array<unknown>, Array<unknown>>(each.runParser)(check(o)),
+    o => {
+      const checked = check(o);
+      return isLeft(checked) ? left([{ path: [], error: checked.left }]) : each.runParserAll(checked.right);
+    }
+  );
+  // the elements are checked to be as many as the parsers, each giving the type at its index
+  return withMeta(parser as Parser<Result, Error, unknown>, { _tag: "Tuple", elements: parsers });
+}
+
+/**
+ * Check that the input is an object, used as a dictionary: each of its keys is parsed by `key`, and each of its
+ * values by `value`. A key that fails to parse is reported with a `KeyMisMatch` error.
+ */
+export function record<K extends string, KE, V, VE>(
+  key: Parser<K, KE>,
+  value: Parser<V, VE>
+): Parser<Record<K, V>, KeyMismatchError<KE> | field.FieldError<VE>, unknown> {
+  type Error = KeyMismatchError<KE> | field.FieldError<VE>;
+  return withMeta(
+    chain(thing.is.object as Parser<object, Error>, o =>
+      from(
+        () => {
+          const result = {} as Record<K, V>;
+          for (const each of Object.keys(o)) {
+            const parsedKey = key.runParser(each);
+            if (isLeft(parsedKey)) {
+              return left({ _tag: "KeyMisMatch", key: each, value: o, cause: parsedKey.left });
+            }
+            const parsedValue = value.runParser((o as any)[each]);
+            if (isLeft(parsedValue)) {
+              return left({ _tag: "FieldMisMatch", field: each, value: o, cause: parsedValue.left });
+            }
+            defineValue(result, parsedKey.right, parsedValue.right);
+          }
+          return right(result);
+        },
+        () => {
+          const result = {} as Record<K, V>;
+          const errors: Array<PathError<Error>> = [];
+          Object.keys(o).forEach(each => {
+            const parsedKey = key.runParser(each);
+            const parsedValue = under(each, runParserAll(value, (o as any)[each]));
+            if (isLeft(parsedKey)) {
+              errors.push({ path: [], error: { _tag: "KeyMisMatch", key: each, value: o, cause: parsedKey.left } });
+            }
+            if (isLeft(parsedValue)) {
+              errors.push(...parsedValue.left);
+            }
+            if (isRight(parsedKey) && isRight(parsedValue)) {
+              defineValue(result, parsedKey.right, parsedValue.right);
+            }
+          });
+          return errors.length > 0 ? left(errors as NonEmptyArray<PathError<Error>>) : right(result);
         }
-      } else {
-        return left({ _tag: "NotAnArray", input: o });
-      }
-    });
+      )
+    ),
+    { _tag: "Record", key, value }
+  );
+}
+
+export namespace map {
+  /**
+   * Parse an array of `[key, value]` entries into a `Map`. Later entries replace earlier ones with the same key.
+   */
+  export function fromEntries<K, KE, V, VE>(
+    key: Parser<K, KE>,
+    value: Parser<V, VE>
+  ): Parser<Map<K, V>, array.ArrayParserError<array.ArrayParserError<KE | VE> | PredicateMismatchError>, unknown> {
+    return map(array.of(tuple(key, value)), entries => new Map(entries));
   }
 }
+
+export namespace set {
+  /**
+   * Parse an array into a `Set` of its elements. Duplicate elements are dropped, use `array.unique` to reject
+   * them instead.
+   */
+  export function fromArray<V, E>(parser: Parser<V, E>): Parser<Set<V>, array.ArrayParserError<E>, unknown> {
+    return map(array.of(parser), values => new Set(values));
+  }
+}
+
+// modules that build on the combinators above
+export * from "./jsonschema";
+export * from "./codec";
+export * from "./async";
+export * from "./coerce";
+export * from "./declarations";
+export * from "./compile";
+export * from "./arbitrary";
+export * from "./patch";
+
+// `stream` and `http` depend on Node built-ins, and are entry points of their own (`ununknown/stream` and
+// `ununknown/http`) so that other consumers do not load them
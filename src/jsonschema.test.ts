@@ -0,0 +1,420 @@
+import {
+  array,
+  bigint,
+  boolean,
+  chain,
+  compose,
+  field,
+  from,
+  fromJsonSchema,
+  isSuccess,
+  literal,
+  map,
+  number,
+  object,
+  opaqueKeyword,
+  or,
+  Parser,
+  recursive,
+  string,
+  succeed,
+  thing,
+  toJsonSchema,
+  report,
+  runParser,
+  runParserAll,
+  UnsupportedSchemaError,
+  tuple,
+  record,
+  nonEmptyArray,
+  union,
+  withDefault,
+  nullable,
+  catchError,
+  preprocess,
+  refine
+} from "./index";
+
+const dialect = "https://json-schema.org/draft/2020-12/schema";
+
+describe("primitives", () => {
+  test("types", () => {
+    expect(toJsonSchema(thing.is.string)).toEqual({ $schema: dialect, type: "string" });
+    expect(toJsonSchema(thing.is.number)).toEqual({ $schema: dialect, type: "number" });
+    expect(toJsonSchema(thing.is.object)).toEqual({ $schema: dialect, type: ["object", "array"] });
+    expect(toJsonSchema(thing.is.array)).toEqual({ $schema: dialect, type: "array" });
+    expect(toJsonSchema(thing.is.not.string)).toEqual({ $schema: dialect, not: { type: "string" } });
+    expect(toJsonSchema(thing.is.bigint)[opaqueKeyword]).toBeDefined();
+  });
+
+  test("literals", () => {
+    expect(toJsonSchema(thing.is.equalTo({ a: 1 }))).toEqual({ $schema: dialect, const: { a: 1 } });
+    expect(toJsonSchema(boolean.isTrue)).toEqual({ $schema: dialect, const: true });
+    expect(toJsonSchema(literal("a", 1, null))).toEqual({ $schema: dialect, enum: ["a", 1, null] });
+    expect(toJsonSchema(literal("a", undefined))[opaqueKeyword]).toEqual(
+      "undefined and bigints have no JSON representation"
+    );
+  });
+
+  test("refinements", () => {
+    expect(toJsonSchema(string.pattern(/^a+$/))).toEqual({ $schema: dialect, type: "string", pattern: "^a+$" });
+    expect(toJsonSchema(string.pattern("b"))).toEqual({ $schema: dialect, type: "string", pattern: "b" });
+    expect(toJsonSchema(string.length(3))).toEqual({ $schema: dialect, type: "string", minLength: 3, maxLength: 3 });
+    expect(toJsonSchema(number.range.inclusive(0, 255))).toEqual({
+      $schema: dialect,
+      type: "number",
+      minimum: 0,
+      maximum: 255
+    });
+    expect(toJsonSchema(string.startsWith("a.b"))).toEqual({ $schema: dialect, type: "string", pattern: "^a\\.b" });
+    expect(toJsonSchema(string.maxLength(3))).toEqual({ $schema: dialect, type: "string", maxLength: 3 });
+    expect(toJsonSchema(number.range.exclusive(0, 1))).toEqual({
+      $schema: dialect,
+      type: "number",
+      exclusiveMinimum: 0,
+      exclusiveMaximum: 1
+    });
+    expect(toJsonSchema(number.uint8)).toEqual({ $schema: dialect, type: "integer", minimum: 0, maximum: 255 });
+    expect(toJsonSchema(number.positive)).toEqual({ $schema: dialect, type: "number", exclusiveMinimum: 0 });
+    expect(toJsonSchema(number.multipleOf(5))).toEqual({ $schema: dialect, type: "number", multipleOf: 5 });
+    expect(toJsonSchema(number.finite)).toEqual({ $schema: dialect, type: "number" });
+    expect(toJsonSchema(bigint.int64)[opaqueKeyword]).toEqual("values of type bigint have no JSON representation");
+  });
+
+  test("opaque steps are flagged", () => {
+    expect(toJsonSchema(string.predicate(s => s !== ""))).toEqual({
+      $schema: dialect,
+      type: "string",
+      [opaqueKeyword]: "predicate"
+    });
+    expect(toJsonSchema(chain(thing.is.string, s => succeed(s)))).toEqual({
+      $schema: dialect,
+      type: "string",
+      [opaqueKeyword]: "chain"
+    });
+    expect(toJsonSchema(from(o => succeed(o).runParser(o)))).toEqual({
+      $schema: dialect,
+      [opaqueKeyword]: "custom parser"
+    });
+    expect(string.pattern(/a/i).meta).toBeDefined();
+    expect(toJsonSchema(string.pattern(/a/i))[opaqueKeyword]).toEqual("pattern flags i");
+  });
+});
+
+describe("combinators", () => {
+  test("objects", () => {
+    const parser = object.of({
+      name: field.required("name", string.pattern(/^\w+$/)),
+      years: field.optional("age", number.range.inclusive(0, 150))
+    });
+    expect(toJsonSchema(parser)).toEqual({
+      $schema: dialect,
+      type: "object",
+      properties: {
+        name: { type: "string", pattern: "^\\w+$" },
+        age: { type: "number", minimum: 0, maximum: 150 }
+      },
+      required: ["name"]
+    });
+  });
+
+  test("unknown keys", () => {
+    const spec = { name: field.required("name", thing.is.string) };
+    expect(toJsonSchema(object.strict(spec)).additionalProperties).toEqual(false);
+    expect(toJsonSchema(object.catchall(spec, thing.is.number)).additionalProperties).toEqual({ type: "number" });
+    expect(toJsonSchema(object.passthrough(spec)).additionalProperties).toBeUndefined();
+  });
+
+  test("arrays, unions and mapping", () => {
+    expect(toJsonSchema(array.of(or(thing.is.string, thing.is.number)))).toEqual({
+      $schema: dialect,
+      type: "array",
+      items: { anyOf: [{ type: "string" }, { type: "number" }] }
+    });
+    expect(toJsonSchema(map(thing.is.string, s => s.length))).toEqual({ $schema: dialect, type: "string" });
+  });
+
+  test("collections", () => {
+    expect(toJsonSchema(tuple(thing.is.string, number.range.inclusive(0, 1)))).toEqual({
+      $schema: dialect,
+      type: "array",
+      prefixItems: [{ type: "string" }, { type: "number", minimum: 0, maximum: 1 }],
+      items: false,
+      minItems: 2
+    });
+    expect(toJsonSchema(record(string.pattern(/^a/), thing.is.number))).toEqual({
+      $schema: dialect,
+      type: "object",
+      propertyNames: { type: "string", pattern: "^a" },
+      additionalProperties: { type: "number" }
+    });
+    expect(toJsonSchema(array.unique(array.maxLength(3, array.of(thing.is.string))))).toEqual({
+      $schema: dialect,
+      type: "array",
+      items: { type: "string" },
+      maxItems: 3,
+      uniqueItems: true
+    });
+    expect(toJsonSchema(nonEmptyArray.of(thing.is.number))).toEqual({
+      $schema: dialect,
+      type: "array",
+      items: { type: "number" },
+      minItems: 1
+    });
+  });
+
+  test("tagged unions", () => {
+    const parser = union.tagged("type", {
+      created: object.of({ id: field.required("id", thing.is.number) }),
+      custom: thing.is.object
+    });
+    expect(toJsonSchema(parser)).toEqual({
+      $schema: dialect,
+      anyOf: [
+        {
+          type: "object",
+          properties: { id: { type: "number" }, type: { const: "created" } },
+          required: ["id", "type"]
+        },
+        {
+          allOf: [
+            { type: "object", properties: { type: { const: "custom" } }, required: ["type"] },
+            { type: ["object", "array"] }
+          ]
+        }
+      ]
+    });
+  });
+
+  test("transforms", () => {
+    const options = object.of({ retries: withDefault(field.optional("retries", thing.is.number), 3) });
+    expect(toJsonSchema(options)).toEqual({
+      $schema: dialect,
+      type: "object",
+      properties: { retries: { type: "number", default: 3 } }
+    });
+    expect(toJsonSchema(nullable(thing.is.string))).toEqual({
+      $schema: dialect,
+      anyOf: [{ const: null }, { type: "string" }]
+    });
+    expect(toJsonSchema(catchError(thing.is.string, () => ""))).toEqual({ $schema: dialect });
+    expect(toJsonSchema(preprocess(o => o, thing.is.string))).toEqual({
+      $schema: dialect,
+      [opaqueKeyword]: "preprocessed input"
+    });
+    expect(
+      toJsonSchema(
+        refine(
+          thing.is.number,
+          n => n > 0,
+          () => "negative"
+        )
+      )
+    ).toEqual({
+      $schema: dialect,
+      type: "number",
+      [opaqueKeyword]: "predicate"
+    });
+  });
+
+  test("compose", () => {
+    expect(toJsonSchema(compose(thing.is.string, string.length(2)))).toEqual({
+      $schema: dialect,
+      allOf: [{ type: "string" }, { type: "string", minLength: 2, maxLength: 2 }]
+    });
+    const parsed = map(thing.is.string, s => +s);
+    expect(toJsonSchema(compose(parsed, number.range.inclusive(0, 1)))).toEqual({
+      $schema: dialect,
+      type: "string",
+      [opaqueKeyword]: "composed with a parser of a transformed value"
+    });
+  });
+
+  test("recursive definitions", () => {
+    interface Person {
+      name: { first: string; last: string };
+      age?: number;
+      children: Array<Person>;
+    }
+
+    const personValidator: Parser<Person, unknown> = recursive(
+      () =>
+        object.of({
+          name: field.required(
+            "name",
+            object.of({
+              first: field.required("first", thing.is.string),
+              last: field.required("last", thing.is.string)
+            })
+          ),
+          age: field.optional("age", thing.is.number),
+          children: field.required("children", array.of(personValidator))
+        }),
+      "Person"
+    );
+
+    expect(toJsonSchema(personValidator)).toEqual({
+      $schema: dialect,
+      $ref: "#/$defs/Person",
+      $defs: {
+        Person: {
+          type: "object",
+          properties: {
+            name: {
+              type: "object",
+              properties: { first: { type: "string" }, last: { type: "string" } },
+              required: ["first", "last"]
+            },
+            age: { type: "number" },
+            children: { type: "array", items: { $ref: "#/$defs/Person" } }
+          },
+          required: ["name", "children"]
+        }
+      }
+    });
+  });
+
+  test("unnamed recursive definitions", () => {
+    const list: Parser<unknown, unknown> = recursive(() => or(thing.is.equalTo(null), array.of(list)));
+    expect(toJsonSchema(list)).toEqual({
+      $schema: dialect,
+      $ref: "#/$defs/Recursive1",
+      $defs: { Recursive1: { anyOf: [{ const: null }, { type: "array", items: { $ref: "#/$defs/Recursive1" } }] } }
+    });
+  });
+});
+
+describe("fromJsonSchema", () => {
+  const accepts = (schema: any, value: unknown) => isSuccess(runParser(fromJsonSchema(schema), value));
+
+  test("types", () => {
+    expect(accepts({ type: "string" }, "a")).toBeTruthy();
+    expect(accepts({ type: "string" }, 1)).toBeFalsy();
+    expect(accepts({ type: "integer" }, 1)).toBeTruthy();
+    expect(accepts({ type: "integer" }, 1.5)).toBeFalsy();
+    expect(accepts({ type: "null" }, null)).toBeTruthy();
+    expect(accepts({ type: "object" }, [])).toBeFalsy();
+    expect(accepts({ type: "object" }, null)).toBeFalsy();
+    expect(accepts({ type: ["string", "null"] }, null)).toBeTruthy();
+    expect(accepts({ type: ["string", "null"] }, 0)).toBeFalsy();
+    expect(accepts(true, 0)).toBeTruthy();
+    expect(accepts(false, 0)).toBeFalsy();
+  });
+
+  test("literals and alternatives", () => {
+    expect(accepts({ const: { a: 1 } }, { a: 1 })).toBeTruthy();
+    expect(accepts({ enum: ["a", 2] }, 2)).toBeTruthy();
+    expect(accepts({ enum: ["a", 2] }, "b")).toBeFalsy();
+    const result = runParser(fromJsonSchema({ enum: ["a", 2] }), "b");
+    expect(isSuccess(result) ? "" : report.text(result.left)).toEqual(
+      'at root: expected one of "a", 2, got string "b"'
+    );
+    expect(accepts({ anyOf: [{ type: "string" }, { minimum: 3 }] }, 2)).toBeFalsy();
+    expect(accepts({ anyOf: [{ type: "string" }, { minimum: 3 }] }, 3)).toBeTruthy();
+    expect(accepts({ oneOf: [{ type: "number" }, { minimum: 3 }] }, 2)).toBeTruthy();
+    expect(accepts({ oneOf: [{ type: "number" }, { minimum: 3 }] }, 3)).toBeFalsy();
+    expect(accepts({ allOf: [{ type: "number" }, { minimum: 3 }] }, 2)).toBeFalsy();
+  });
+
+  test("constraints only apply to their own type", () => {
+    const schema = { pattern: "^a", minLength: 2, maximum: 3, exclusiveMinimum: 0 };
+    expect(accepts(schema, "ab")).toBeTruthy();
+    expect(accepts(schema, "a")).toBeFalsy();
+    expect(accepts(schema, "ba")).toBeFalsy();
+    expect(accepts(schema, 3)).toBeTruthy();
+    expect(accepts(schema, 4)).toBeFalsy();
+    expect(accepts(schema, 0)).toBeFalsy();
+    expect(accepts(schema, null)).toBeTruthy();
+  });
+
+  test("objects", () => {
+    const schema = {
+      type: "object",
+      properties: { name: { type: "string" }, age: { type: "number" } },
+      required: ["name", "id"],
+      additionalProperties: { type: "boolean" }
+    };
+    expect(accepts(schema, { name: "a", id: true })).toBeTruthy();
+    expect(accepts(schema, { name: "a", id: true, age: 3, extra: true })).toBeTruthy();
+    expect(accepts(schema, { name: "a" })).toBeFalsy();
+    expect(accepts(schema, { name: "a", id: true, age: "3" })).toBeFalsy();
+    expect(accepts(schema, { name: "a", id: true, extra: 1 })).toBeFalsy();
+    expect(accepts({ properties: {}, additionalProperties: false }, { a: 1 })).toBeFalsy();
+    expect(accepts({ properties: {}, additionalProperties: false }, {})).toBeTruthy();
+    expect(accepts({ required: ["a"], additionalProperties: false }, { a: 1 })).toBeFalsy();
+  });
+
+  test("collections", () => {
+    const pair = { prefixItems: [{ type: "string" }, { type: "number" }], items: false, minItems: 2 };
+    expect(accepts(pair, ["a", 1])).toBeTruthy();
+    expect(accepts(pair, ["a"])).toBeFalsy();
+    expect(accepts(pair, ["a", 1, 2])).toBeFalsy();
+    expect(accepts(pair, [1, 1])).toBeFalsy();
+    expect(accepts({ uniqueItems: true, maxItems: 2 }, [1, 2])).toBeTruthy();
+    expect(accepts({ uniqueItems: true }, [1, 1])).toBeFalsy();
+    expect(accepts({ maxItems: 2 }, [1, 2, 3])).toBeFalsy();
+    expect(accepts({ propertyNames: { pattern: "^a" } }, { ab: 1 })).toBeTruthy();
+    expect(accepts({ propertyNames: { pattern: "^a" } }, { b: 1 })).toBeFalsy();
+    expect(() => fromJsonSchema({ prefixItems: [{}], items: {} })).toThrow(UnsupportedSchemaError);
+  });
+
+  test("succeeds with the input unchanged", () => {
+    const value = { name: "a", id: 0, extra: [1] };
+    const result = runParser(fromJsonSchema({ type: "object", properties: { name: { type: "string" } } }), value);
+    expect(isSuccess(result) && result.right).toBe(value);
+  });
+
+  test("references and errors", () => {
+    const schema = {
+      $ref: "#/$defs/Person",
+      $defs: {
+        Person: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            children: { type: "array", items: { $ref: "#/$defs/Person" } }
+          },
+          required: ["name", "children"]
+        }
+      }
+    };
+    const parser = fromJsonSchema(schema);
+    expect(isSuccess(runParser(parser, { name: "a", children: [{ name: "b", children: [] }] }))).toBeTruthy();
+    const result = runParserAll(parser, { name: "a", children: [{ name: 1, children: [] }, { name: "c" }] });
+    expect(report.text(isSuccess(result) ? [] : result.left).split("\n")).toEqual([
+      "at .children[0].name: expected string, got number 1",
+      "at .children[1].children: missing required field children"
+    ]);
+  });
+
+  test("round trip", () => {
+    const parser = object.of({
+      tags: field.required("tags", array.of(string.pattern(/^\w+$/))),
+      scores: field.optional("scores", array.of(number.range.inclusive(0, 10))),
+      count: field.optional("count", number.uint8),
+      step: field.optional("step", number.multipleOf(5))
+    });
+    const derived = fromJsonSchema(toJsonSchema(parser));
+    [
+      { tags: [] },
+      { tags: ["a"], scores: [1, 10] },
+      { tags: ["a b"] },
+      { tags: ["a"], scores: [11] },
+      { tags: [], count: 255, step: 10 },
+      { tags: [], count: 1.5 },
+      { tags: [], count: 256 },
+      { tags: [], step: 12 },
+      { scores: [] }
+    ].forEach(value => expect(isSuccess(runParser(derived, value))).toEqual(isSuccess(runParser(parser, value))));
+  });
+
+  test("unsupported schemas fail to build", () => {
+    expect(() => fromJsonSchema({ type: "string", contentEncoding: "base64" })).toThrow(UnsupportedSchemaError);
+    expect(() => fromJsonSchema({ properties: { a: { not: {} } } })).toThrow(
+      'unsupported keyword "not" (at schema location "/properties/a/not")'
+    );
+    expect(() => fromJsonSchema({ $ref: "https://example.com/schema.json" })).toThrow(UnsupportedSchemaError);
+    expect(() => fromJsonSchema({ $ref: "#/$defs/Missing" })).toThrow(UnsupportedSchemaError);
+    expect(() => fromJsonSchema({ type: "date" })).toThrow(UnsupportedSchemaError);
+  });
+});
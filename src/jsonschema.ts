@@ -0,0 +1,645 @@
+import { isLeft, left, right } from "fp-ts/lib/Either";
+import { NonEmptyArray } from "fp-ts/lib/NonEmptyArray";
+import { ParserError, PathError, UnunknownError } from "./errors";
+import { formatPatterns, StringFormat } from "./format";
+import {
+  array,
+  chain,
+  compose,
+  fail,
+  field,
+  from,
+  literal,
+  LiteralValue,
+  number,
+  object,
+  or,
+  Parser,
+  record,
+  recursive,
+  runParserAll,
+  string,
+  succeed,
+  thing
+} from "./index";
+import { AnyParser, Constraint, fieldMeta, Meta, preservesInput } from "./meta";
+import { PrimitiveString } from "./util";
+
+export const dialect = "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * Keyword added to (sub)schemas for parts of a parser that cannot be described by a JSON Schema,
+ * such as arbitrary `predicate`s or `chain`s. Its value describes what was left out.
+ */
+export const opaqueKeyword = "x-ununknown-opaque";
+
+export type JsonSchema = boolean | JsonSchemaObject;
+
+export interface JsonSchemaObject {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  type?: string | Array<string>;
+  const?: unknown;
+  enum?: Array<unknown>;
+  not?: JsonSchema;
+  allOf?: Array<JsonSchema>;
+  anyOf?: Array<JsonSchema>;
+  oneOf?: Array<JsonSchema>;
+  properties?: Record<string, JsonSchema>;
+  required?: Array<string>;
+  additionalProperties?: JsonSchema;
+  items?: JsonSchema;
+  prefixItems?: Array<JsonSchema>;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  propertyNames?: JsonSchema;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  [keyword: string]: unknown;
+}
+
+const opaque = (schema: JsonSchemaObject, reason: string): JsonSchemaObject => {
+  const existing = schema[opaqueKeyword];
+  return { ...schema, [opaqueKeyword]: existing === undefined ? reason : `${existing}; ${reason}` };
+};
+
+const typeSchema = (type: PrimitiveString): JsonSchemaObject => {
+  switch (type) {
+    case "string":
+    case "number":
+    case "boolean":
+      return { type };
+    case "object":
+      return { type: ["object", "array", "null"] };
+    default:
+      return opaque({}, `values of type ${type} have no JSON representation`);
+  }
+};
+
+/**
+ * The values of the `format` keyword for the string formats that JSON Schema defines. Formats are only
+ * annotations by default, so the pattern of the format is also given when there is one.
+ */
+const jsonSchemaFormats: { [F in StringFormat]?: string } = {
+  email: "email",
+  url: "uri",
+  uri: "uri",
+  uuid: "uuid",
+  date: "date",
+  time: "time",
+  "date-time": "date-time",
+  duration: "duration",
+  ipv4: "ipv4",
+  ipv6: "ipv6",
+  hostname: "hostname"
+};
+
+const constraintSchema = (constraint: Constraint): JsonSchemaObject => {
+  switch (constraint._tag) {
+    case "Pattern":
+      const pattern = constraint.pattern;
+      if (typeof pattern === "string") {
+        return { pattern };
+      }
+      return pattern.flags === ""
+        ? { pattern: pattern.source }
+        : opaque({ pattern: pattern.source }, `pattern flags ${pattern.flags}`);
+    case "Length":
+      return {
+        ...(constraint.min === undefined ? {} : { minLength: constraint.min }),
+        ...(constraint.max === undefined ? {} : { maxLength: constraint.max })
+      };
+    case "Range":
+      const { min, max, exclusive } = constraint;
+      if (typeof min === "bigint" || typeof max === "bigint") {
+        // the schema of the bigint itself is already opaque
+        return {};
+      }
+      return {
+        ...(min === undefined ? {} : exclusive ? { exclusiveMinimum: min } : { minimum: min }),
+        ...(max === undefined ? {} : exclusive ? { exclusiveMaximum: max } : { maximum: max })
+      };
+    case "Integer":
+      return { type: "integer" };
+    case "Finite":
+      // JSON numbers are finite
+      return {};
+    case "MultipleOf":
+      return { multipleOf: constraint.multipleOf };
+    case "Format":
+      const name = jsonSchemaFormats[constraint.format];
+      const formatPattern = formatPatterns[constraint.format];
+      const formatSchema = {
+        ...(name === undefined ? {} : { format: name }),
+        ...(formatPattern === undefined ? {} : { pattern: formatPattern.source })
+      };
+      return name === undefined && formatPattern === undefined
+        ? opaque(formatSchema, `format ${constraint.format}`)
+        : formatSchema;
+    case "Items":
+      return {
+        ...(constraint.min === undefined ? {} : { minItems: constraint.min }),
+        ...(constraint.max === undefined ? {} : { maxItems: constraint.max })
+      };
+    case "Unique":
+      return { uniqueItems: true };
+    case "Custom":
+      return opaque({}, "predicate");
+  }
+};
+
+/**
+ * Require the property `field` of the objects described by `schema` to be `tag`.
+ */
+const withTag = (schema: JsonSchemaObject, field: string, tag: string): JsonSchemaObject => {
+  if (schema.type !== "object") {
+    return { allOf: [{ type: "object", properties: { [field]: { const: tag } }, required: [field] }, schema] };
+  }
+  const required = schema.required || [];
+  return {
+    ...schema,
+    properties: { ...schema.properties, [field]: { const: tag } },
+    required: required.indexOf(field) === -1 ? [...required, field] : required
+  };
+};
+
+class SchemaBuilder {
+  private readonly names = new Map<AnyParser, string>();
+  readonly defs: Record<string, JsonSchema> = {};
+
+  private name(parser: AnyParser, name: string | undefined): string {
+    const base = name === undefined ? "Recursive" : name;
+    let candidate = name === undefined ? `${base}1` : base;
+    for (let i = 2; this.defs.hasOwnProperty(candidate); ++i) {
+      candidate = `${base}${i}`;
+    }
+    this.names.set(parser, candidate);
+    // reserve the name until the definition has been built
+    this.defs[candidate] = true;
+    return candidate;
+  }
+
+  build(parser: AnyParser): JsonSchemaObject {
+    const meta = parser.meta;
+    if (meta === undefined) {
+      return opaque({}, "custom parser");
+    }
+    switch (meta._tag) {
+      case "Type":
+        return typeSchema(meta.type);
+      case "Object":
+        return { type: ["object", "array"] };
+      case "Not":
+        return { not: typeSchema(meta.type) };
+      case "Literal":
+        return meta.value === undefined ? opaque({}, "undefined has no JSON representation") : { const: meta.value };
+      case "Enum":
+        const values = meta.values.filter(value => value !== undefined && typeof value !== "bigint");
+        return values.length === meta.values.length
+          ? { enum: values }
+          : opaque({ enum: values }, "undefined and bigints have no JSON representation");
+      case "Refinement":
+        return { ...this.build(meta.parser), ...constraintSchema(meta.constraint) };
+      case "Struct":
+        const fields = meta.fields;
+        const required: Array<string> = [];
+        const struct = Object.keys(fields).reduce(
+          (schema, key) => {
+            const field = fieldMeta(fields[key]);
+            const entry = fields[key].meta;
+            if (field === undefined) {
+              return opaque(schema, `object key ${JSON.stringify(key)} is not built from a field`);
+            }
+            const name = String(field.field);
+            if (!field.optional) {
+              required.push(name);
+            }
+            const property =
+              entry !== undefined && entry._tag === "Default"
+                ? { ...this.build(field.parser), default: entry.value }
+                : this.build(field.parser);
+            return { ...schema, properties: { ...schema.properties, [name]: property } };
+          },
+          { type: "object", properties: {} } as JsonSchemaObject
+        );
+        const additional =
+          meta.unknownKeys._tag === "Strict"
+            ? { additionalProperties: false }
+            : meta.unknownKeys._tag === "Catchall"
+            ? { additionalProperties: this.build(meta.unknownKeys.parser) }
+            : {};
+        return required.length > 0 ? { ...struct, required, ...additional } : { ...struct, ...additional };
+      case "Field":
+        const properties = { [String(meta.field)]: this.build(meta.parser) };
+        return meta.optional
+          ? { type: "object", properties }
+          : { type: "object", properties, required: [String(meta.field)] };
+      case "Array":
+        return meta.element === undefined ? { type: "array" } : { type: "array", items: this.build(meta.element) };
+      case "Tuple":
+        return {
+          type: "array",
+          prefixItems: meta.elements.map(element => this.build(element)),
+          items: false,
+          minItems: meta.elements.length
+        };
+      case "Record":
+        return { type: "object", propertyNames: this.build(meta.key), additionalProperties: this.build(meta.value) };
+      case "Union":
+        return { anyOf: meta.alternatives.map(alternative => this.build(alternative)) };
+      case "Tagged":
+        const tagged = meta;
+        return {
+          anyOf: Object.keys(tagged.variants).map(tag => withTag(this.build(tagged.variants[tag]), tagged.field, tag))
+        };
+      case "Recursive":
+        const existing = this.names.get(parser);
+        if (existing !== undefined) {
+          return { $ref: `#/$defs/${existing}` };
+        }
+        const name = this.name(parser, meta.name);
+        this.defs[name] = this.build(meta.body());
+        return { $ref: `#/$defs/${name}` };
+      case "Compose":
+        return preservesInput(meta.first.meta)
+          ? { allOf: [this.build(meta.first), this.build(meta.second)] }
+          : opaque(this.build(meta.first), "composed with a parser of a transformed value");
+      case "Map":
+      case "MapError":
+        return this.build(meta.parser);
+      case "Chain":
+        return opaque(this.build(meta.parser), "chain");
+      case "Default":
+        return fieldMeta(meta.parser) === undefined
+          ? { ...this.build(meta.parser), default: meta.value }
+          : this.build(meta.parser);
+      case "Catch":
+        // every input is accepted, as the errors of the parser are replaced by a fallback value
+        return {};
+      case "Preprocess":
+        return opaque({}, "preprocessed input");
+    }
+  }
+}
+
+/**
+ * Derive a JSON Schema (draft 2020-12) describing the inputs accepted by a parser. Checks that cannot be
+ * described by a JSON Schema are marked with the `x-ununknown-opaque` keyword, and named `recursive`
+ * definitions are placed in `$defs`.
+ *
+ * @param parser a parser built from the library's combinators
+ */
+export function toJsonSchema(parser: AnyParser): JsonSchemaObject {
+  const builder = new SchemaBuilder();
+  const schema = builder.build(parser);
+  const defs = Object.keys(builder.defs).length > 0 ? { $defs: builder.defs } : {};
+  return { $schema: dialect, ...schema, ...defs };
+}
+
+/**
+ * Thrown by `fromJsonSchema` when a schema uses a keyword or reference that cannot be turned into a parser.
+ */
+export class UnsupportedSchemaError extends UnunknownError {
+  constructor(message: string, public readonly pointer: string) {
+    super(`${message} (at schema location "${pointer}")`);
+    this.name = "UnsupportedSchemaError";
+  }
+}
+
+export type SchemaParser = Parser<unknown, ParserError, unknown>;
+
+/** keywords that only annotate a schema, and do not affect validation */
+const annotations = [
+  "$schema",
+  "$id",
+  "$comment",
+  "$defs",
+  "definitions",
+  "title",
+  "description",
+  "default",
+  "examples",
+  "deprecated",
+  "readOnly",
+  "writeOnly",
+  "format",
+  opaqueKeyword
+];
+
+const supported = [
+  "$ref",
+  "type",
+  "const",
+  "enum",
+  "anyOf",
+  "oneOf",
+  "allOf",
+  "properties",
+  "required",
+  "additionalProperties",
+  "items",
+  "prefixItems",
+  "minItems",
+  "maxItems",
+  "uniqueItems",
+  "propertyNames",
+  "pattern",
+  "minLength",
+  "maxLength",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "multipleOf"
+];
+
+const any: SchemaParser = from(o => right(o));
+
+const none: SchemaParser = from(o =>
+  left({ _tag: "PredicateMismatch", value: o, customMessage: "no value is allowed by the schema" })
+);
+
+const isJsonObject = (o: unknown): o is Record<string, unknown> =>
+  typeof o === "object" && o !== null && !Array.isArray(o);
+
+/**
+ * Run each of `parsers` on the input, succeeding with the input itself when all of them succeed.
+ */
+const every = (parsers: Array<SchemaParser>): SchemaParser =>
+  from(
+    o => {
+      for (const parser of parsers) {
+        const result = parser.runParser(o);
+        if (isLeft(result)) {
+          return result;
+        }
+      }
+      return right(o);
+    },
+    o => {
+      const errors = parsers
+        .map(parser => runParserAll(parser, o))
+        .reduce(
+          (all, result) => (isLeft(result) ? [...all, ...result.left] : all),
+          [] as Array<PathError<ParserError>>
+        );
+      return errors.length > 0 ? left(errors as NonEmptyArray<PathError<ParserError>>) : right(o);
+    }
+  );
+
+/**
+ * Only run `parser` when the input satisfies `guard`, as JSON Schema keywords only apply to certain types.
+ */
+const when = (guard: (o: unknown) => boolean, parser: SchemaParser): SchemaParser =>
+  from(
+    o => (guard(o) ? parser.runParser(o) : right(o)),
+    o => (guard(o) ? runParserAll(parser, o) : right(o))
+  );
+
+const jsonTypes: Record<string, [(o: unknown) => boolean, SchemaParser]> = {
+  string: [o => typeof o === "string", thing.is.string],
+  number: [o => typeof o === "number", thing.is.number],
+  integer: [
+    o => typeof o === "number" && o % 1 === 0,
+    number.predicate(
+      n => n % 1 === 0,
+      n => `${n} is not an integer`
+    )
+  ],
+  boolean: [o => typeof o === "boolean", thing.is.boolean],
+  null: [o => o === null, thing.is.equalTo(null)],
+  array: [Array.isArray, thing.is.array],
+  object: [
+    isJsonObject,
+    compose(
+      thing.is.object,
+      object.predicate(
+        o => !Array.isArray(o),
+        () => "expected an object, got an array"
+      )
+    )
+  ]
+};
+
+const unescape = (segment: string) =>
+  decodeURIComponent(segment)
+    .replace(/~1/g, "/")
+    .replace(/~0/g, "~");
+
+class ParserBuilder {
+  private readonly refs = new Map<string, SchemaParser>();
+
+  constructor(private readonly root: JsonSchema) {}
+
+  private resolve(ref: string, pointer: string): SchemaParser {
+    if (ref !== "#" && ref.slice(0, 2) !== "#/") {
+      throw new UnsupportedSchemaError(`only references within the same document are supported, got ${ref}`, pointer);
+    }
+    const existing = this.refs.get(ref);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const segments =
+      ref === "#"
+        ? []
+        : ref
+            .slice(2)
+            .split("/")
+            .map(unescape);
+    const target = segments.reduce((schema: any, segment) => {
+      if (typeof schema !== "object" || schema === null || !(segment in schema)) {
+        throw new UnsupportedSchemaError(`reference ${ref} does not point to a schema`, pointer);
+      }
+      return schema[segment];
+    }, this.root);
+    let built: SchemaParser | undefined;
+    const parser = recursive(() => built!, segments.length === 0 ? undefined : segments[segments.length - 1]);
+    this.refs.set(ref, parser);
+    built = this.build(target, ref.slice(1));
+    return parser;
+  }
+
+  private type(type: unknown, pointer: string): [(o: unknown) => boolean, SchemaParser] {
+    const types = Array.isArray(type) ? type : [type];
+    const unknown = types.filter(t => typeof t !== "string" || !jsonTypes.hasOwnProperty(t));
+    if (types.length === 0 || unknown.length > 0) {
+      throw new UnsupportedSchemaError(`unknown type ${JSON.stringify(type)}`, `${pointer}/type`);
+    }
+    const [first, ...rest] = types.map((t: string) => jsonTypes[t]);
+    return rest.reduce(
+      ([guard, parser], [nextGuard, next]) => [(o: unknown) => guard(o) || nextGuard(o), or(parser, next)],
+      first
+    );
+  }
+
+  private alternatives(schemas: unknown, pointer: string): Array<SchemaParser> {
+    if (!Array.isArray(schemas) || schemas.length === 0) {
+      throw new UnsupportedSchemaError("expected a non-empty array of schemas", pointer);
+    }
+    return schemas.map((schema, index) => this.build(schema, `${pointer}/${index}`));
+  }
+
+  private properties(schema: JsonSchemaObject, pointer: string): SchemaParser {
+    const properties = schema.properties || {};
+    const required = schema.required || [];
+    const fields: Record<string, SchemaParser> = {};
+    Object.keys(properties).forEach(name => {
+      const parser = this.build(properties[name], `${pointer}/properties/${name}`);
+      fields[name] = required.indexOf(name) !== -1 ? field.required(name, parser) : field.optional(name, parser);
+    });
+    const additional = schema.additionalProperties;
+    const parsers = [
+      additional === undefined || additional === true
+        ? object.of(fields)
+        : additional === false
+        ? object.strict(fields)
+        : object.catchall(fields, this.build(additional, `${pointer}/additionalProperties`))
+    ];
+    // required keys without a schema in `properties` still count as additional properties
+    const unlisted = required.filter(name => !properties.hasOwnProperty(name));
+    if (unlisted.length > 0) {
+      parsers.push(object.of(unlisted.reduce((spec, name) => ({ ...spec, [name]: field.required(name, any) }), {})));
+    }
+    return every(parsers);
+  }
+
+  build(schema: JsonSchema, pointer: string = ""): SchemaParser {
+    if (schema === true) {
+      return any;
+    } else if (schema === false) {
+      return none;
+    } else if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+      throw new UnsupportedSchemaError("a schema must be an object or a boolean", pointer);
+    }
+    Object.keys(schema).forEach(keyword => {
+      if (annotations.indexOf(keyword) === -1 && supported.indexOf(keyword) === -1 && keyword.slice(0, 2) !== "x-") {
+        throw new UnsupportedSchemaError(`unsupported keyword ${JSON.stringify(keyword)}`, `${pointer}/${keyword}`);
+      }
+    });
+    const has = (keyword: string) => schema[keyword] !== undefined;
+    const parsers: Array<SchemaParser> = [];
+    const typed = (type: string, parser: SchemaParser) => {
+      parsers.push(schema.type === type ? parser : when(jsonTypes[type][0], parser));
+    };
+
+    if (has("$ref")) {
+      parsers.push(this.resolve(schema.$ref!, `${pointer}/$ref`));
+    }
+    if (has("type")) {
+      parsers.push(this.type(schema.type, pointer)[1]);
+    }
+    if (has("const")) {
+      parsers.push(thing.is.equalTo(schema.const));
+    }
+    if (has("enum")) {
+      if (!Array.isArray(schema.enum) || schema.enum.length === 0) {
+        throw new UnsupportedSchemaError("enum must be a non-empty array", `${pointer}/enum`);
+      }
+      const values = schema.enum;
+      // objects are compared by their contents rather than by identity
+      parsers.push(
+        values.every(value => value === null || typeof value !== "object")
+          ? literal(...(values as Array<LiteralValue>))
+          : values.map(value => thing.is.equalTo(value) as SchemaParser).reduce((a, b) => or(a, b))
+      );
+    }
+    if (has("allOf")) {
+      parsers.push(every(this.alternatives(schema.allOf, `${pointer}/allOf`)));
+    }
+    if (has("anyOf")) {
+      parsers.push(this.alternatives(schema.anyOf, `${pointer}/anyOf`).reduce((a, b) => or(a, b)));
+    }
+    if (has("oneOf")) {
+      const alternatives = this.alternatives(schema.oneOf, `${pointer}/oneOf`);
+      parsers.push(
+        chain(
+          alternatives.reduce((a, b) => or(a, b) as SchemaParser),
+          value =>
+            alternatives.filter(alternative => !isLeft(alternative.runParser(value))).length > 1
+              ? fail({ _tag: "PredicateMismatch", value, customMessage: "matches more than one alternative of oneOf" })
+              : succeed(value)
+        )
+      );
+    }
+
+    if (has("pattern")) {
+      typed("string", string.pattern(schema.pattern!));
+    }
+    if (has("minLength") || has("maxLength")) {
+      const [min, max] = [schema.minLength, schema.maxLength];
+      typed(
+        "string",
+        string.predicate(
+          s => (min === undefined || s.length >= min) && (max === undefined || s.length <= max),
+          s => `${JSON.stringify(s)} is required to have a length in [${min || 0},${max === undefined ? "" : max}]`
+        )
+      );
+    }
+    if (has("minimum") || has("maximum")) {
+      const [min, max] = [schema.minimum, schema.maximum];
+      typed("number", number.range.inclusive(min === undefined ? -Infinity : min, max === undefined ? Infinity : max));
+    }
+    if (has("exclusiveMinimum") || has("exclusiveMaximum")) {
+      const [min, max] = [schema.exclusiveMinimum, schema.exclusiveMaximum];
+      typed("number", number.range.exclusive(min === undefined ? -Infinity : min, max === undefined ? Infinity : max));
+    }
+    if (has("multipleOf")) {
+      typed("number", number.multipleOf(schema.multipleOf!));
+    }
+
+    if (has("prefixItems")) {
+      const prefixItems = this.alternatives(schema.prefixItems, `${pointer}/prefixItems`);
+      typed("array", every(prefixItems.map((parser, index) => field.optional(index, parser))));
+    }
+    if (has("items")) {
+      if (Array.isArray(schema.items)) {
+        throw new UnsupportedSchemaError("items must be a single schema", `${pointer}/items`);
+      }
+      if (!has("prefixItems")) {
+        typed("array", array.of(this.build(schema.items!, `${pointer}/items`)));
+      } else if (schema.items === false) {
+        typed("array", array.maxLength(schema.prefixItems!.length));
+      } else if (schema.items !== true) {
+        throw new UnsupportedSchemaError("items alongside prefixItems must be a boolean", `${pointer}/items`);
+      }
+    }
+    if (has("minItems")) {
+      typed("array", array.minLength(schema.minItems!));
+    }
+    if (has("maxItems")) {
+      typed("array", array.maxLength(schema.maxItems!));
+    }
+    if (schema.uniqueItems === true) {
+      typed("array", array.unique());
+    }
+    if (has("propertyNames")) {
+      const key = this.build(schema.propertyNames!, `${pointer}/propertyNames`) as Parser<string, ParserError>;
+      typed("object", record(key, any));
+    }
+    if (has("properties") || has("required") || has("additionalProperties")) {
+      typed("object", this.properties(schema, pointer));
+    }
+
+    return parsers.length === 0 ? any : every(parsers);
+  }
+}
+
+/**
+ * Build a parser that accepts the same values as a JSON Schema. The parser succeeds with its input unchanged.
+ * Only references within the schema document itself (such as `#/$defs/Person`) are resolved, so no schema is
+ * ever fetched.
+ *
+ * @param schema a JSON Schema document, which may be loaded from a local file with `JSON.parse`
+ * @throws UnsupportedSchemaError if the schema uses a keyword or reference that is not supported
+ */
+export function fromJsonSchema(schema: JsonSchema): SchemaParser {
+  return new ParserBuilder(schema).build(schema);
+}
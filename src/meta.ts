@@ -0,0 +1,142 @@
+import { Lazy } from "fp-ts/lib/function";
+import { Parser } from "./index";
+import { StringFormat } from "./format";
+import { PrimitiveString } from "./util";
+
+export type AnyParser = Parser<unknown, unknown, any>;
+
+/**
+ * How an object parser handles the keys of its input that it does not list: dropping them from the result,
+ * failing, keeping them as they are, or parsing each of them.
+ */
+export type UnknownKeys =
+  | { _tag: "Strip" }
+  | { _tag: "Strict" }
+  | { _tag: "Passthrough" }
+  | { _tag: "Catchall"; parser: AnyParser };
+
+/**
+ * A known constraint checked by a refinement on top of a primitive parser.
+ */
+export type Constraint =
+  | { _tag: "Pattern"; pattern: string | RegExp }
+  | { _tag: "Length"; min?: number; max?: number }
+  /** the number or bigint is within the bounds that are given */
+  | { _tag: "Range"; min?: number | bigint; max?: number | bigint; exclusive: boolean }
+  | { _tag: "Integer" }
+  /** the number is neither `NaN` nor infinite */
+  | { _tag: "Finite" }
+  | { _tag: "MultipleOf"; multipleOf: number }
+  /** the string is of a known format */
+  | { _tag: "Format"; format: StringFormat }
+  /** the number of elements of an array is in a range */
+  | { _tag: "Items"; min?: number; max?: number }
+  /** the elements of an array are distinct */
+  | { _tag: "Unique" }
+  /** an arbitrary `predicate` that cannot be inspected */
+  | { _tag: "Custom" };
+
+/**
+ * A description of what a parser checks, attached to the parsers built by the library's combinators so that
+ * other representations (such as JSON Schemas) can be derived from them. Parsers built directly with `from`
+ * carry no description and are treated as opaque.
+ */
+export type Meta =
+  /** `typeof` the input is `type` */
+  | { _tag: "Type"; type: PrimitiveString }
+  /** the input is not `null`, and `typeof` it is `"object"` */
+  | { _tag: "Object" }
+  /** `typeof` the input is not `type` */
+  | { _tag: "Not"; type: PrimitiveString }
+  | { _tag: "Literal"; value: unknown }
+  /** the input is one of `values`, compared with `===` */
+  | { _tag: "Enum"; values: Array<unknown> }
+  | { _tag: "Refinement"; parser: AnyParser; constraint: Constraint }
+  /**
+   * an object built from the field parsers in `fields`, with the keys that are not listed handled
+   * according to `unknownKeys`
+   */
+  | { _tag: "Struct"; fields: Record<string, AnyParser>; unknownKeys: UnknownKeys }
+  | { _tag: "Field"; field: string | number; parser: AnyParser; optional: boolean }
+  /** an array, with each element checked by `element` if given */
+  | { _tag: "Array"; element?: AnyParser }
+  /** an array of exactly as many elements as `elements`, each checked by the parser at its index */
+  | { _tag: "Tuple"; elements: Array<AnyParser> }
+  /** an object whose keys are all checked by `key`, and values by `value` */
+  | { _tag: "Record"; key: AnyParser; value: AnyParser }
+  | { _tag: "Union"; alternatives: Array<AnyParser> }
+  /** an object whose string `field` selects the parser in `variants` that checks it */
+  | { _tag: "Tagged"; field: string; variants: Record<string, AnyParser> }
+  /** `body`, failing on inputs that contain themselves if `detectCycles`, and below `maxDepth` levels if given */
+  | { _tag: "Recursive"; body: Lazy<AnyParser>; name?: string; detectCycles?: boolean; maxDepth?: number }
+  /** the output of `first` is parsed by `second` */
+  | { _tag: "Compose"; first: AnyParser; second: AnyParser }
+  /** the output of `parser` is transformed by a function */
+  | { _tag: "Map"; parser: AnyParser }
+  /** the errors of `parser` are transformed by a function */
+  | { _tag: "MapError"; parser: AnyParser }
+  /** the parser to continue with is chosen by a function of the output of `parser` */
+  | { _tag: "Chain"; parser: AnyParser }
+  /** `parser`, succeeding with `value` instead of `undefined` */
+  | { _tag: "Default"; parser: AnyParser; value: unknown }
+  /** `parser`, succeeding with a fallback value when it fails */
+  | { _tag: "Catch"; parser: AnyParser }
+  /** `parser`, run on the result of a function of the input */
+  | { _tag: "Preprocess"; parser: AnyParser };
+
+export type FieldMeta = Extract<Meta, { _tag: "Field" }>;
+
+/**
+ * The description of the field read by `parser`, looking through the steps that only change its result.
+ */
+export const fieldMeta = (parser: AnyParser): FieldMeta | undefined => {
+  const meta = parser.meta;
+  if (meta === undefined) {
+    return undefined;
+  }
+  switch (meta._tag) {
+    case "Field":
+      return meta;
+    case "Default":
+    case "Map":
+    case "MapError":
+      return fieldMeta(meta.parser);
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Whether the output of a parser is its (checked) input, so that a parser composed after it checks the input.
+ */
+export const preservesInput = (meta: Meta | undefined): boolean => {
+  if (meta === undefined) {
+    return false;
+  }
+  switch (meta._tag) {
+    case "Type":
+    case "Object":
+    case "Not":
+    case "Literal":
+    case "Enum":
+      return true;
+    case "Refinement":
+    case "MapError":
+      return preservesInput(meta.parser.meta);
+    case "Array":
+      return meta.element === undefined || preservesInput(meta.element.meta);
+    case "Tuple":
+      return meta.elements.every(element => preservesInput(element.meta));
+    case "Record":
+      return preservesInput(meta.key.meta) && preservesInput(meta.value.meta);
+    case "Union":
+      return meta.alternatives.every(alternative => preservesInput(alternative.meta));
+    case "Tagged":
+      const variants = meta.variants;
+      return Object.keys(variants).every(tag => preservesInput(variants[tag].meta));
+    case "Compose":
+      return preservesInput(meta.first.meta) && preservesInput(meta.second.meta);
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,114 @@
+import { field, isFailure, isSuccess, object, patch, report, runParser, runParserAll, thing } from "./index";
+
+const user = object.of({
+  name: field.required("name", thing.is.string),
+  age: field.required("age", thing.is.number),
+  tags: field.required("tags", thing.is.object)
+});
+
+const document = { name: "Ada", age: 36, tags: ["math"] };
+
+describe("patch.apply", () => {
+  test("applies each operation to a copy", () => {
+    const result = patch.apply(document, [
+      { op: "replace", path: "/name", value: "Grace" },
+      { op: "add", path: "/tags/-", value: "navy" },
+      { op: "add", path: "/tags/0", value: "cobol" },
+      { op: "copy", from: "/name", path: "/alias" },
+      { op: "move", from: "/alias", path: "/nickname" },
+      { op: "remove", path: "/age" },
+      { op: "test", path: "/name", value: "Grace" }
+    ]);
+    expect(isSuccess(result) && result.right.document).toEqual({
+      name: "Grace",
+      tags: ["cobol", "math", "navy"],
+      nickname: "Grace"
+    });
+    expect(isSuccess(result) && result.right.paths).toEqual([
+      ["name"],
+      ["tags", 1],
+      ["tags", 0],
+      ["alias"],
+      ["nickname"],
+      ["age"],
+      undefined
+    ]);
+    expect(document).toEqual({ name: "Ada", age: 36, tags: ["math"] });
+  });
+
+  test("fails with the index of the operation that cannot be applied", () => {
+    expect(patch.apply(document, [{ op: "remove", path: "/tags/1" }])).toEqual({
+      _tag: "Left",
+      left: [0, "/tags/1 does not exist"]
+    });
+    expect(
+      patch.apply(document, [
+        { op: "replace", path: "/name", value: "a" },
+        { op: "remove", path: "/b/c" }
+      ])
+    ).toEqual({ _tag: "Left", left: [1, "/b does not exist"] });
+    expect(patch.apply(document, [{ op: "test", path: "/age", value: 37 }])).toEqual({
+      _tag: "Left",
+      left: [0, "/age is not equal to the tested value"]
+    });
+  });
+
+  test("does not reach the prototypes of the document", () => {
+    expect(patch.apply(document, [{ op: "add", path: "/__proto__/polluted", value: "yes" }])).toEqual({
+      _tag: "Left",
+      left: [0, "/__proto__ is not allowed"]
+    });
+    expect(patch.apply(document, [{ op: "copy", from: "/constructor/prototype", path: "/copied" }])).toEqual({
+      _tag: "Left",
+      left: [0, "/constructor is not allowed"]
+    });
+    expect(patch.apply(document, [{ op: "test", path: "/toString", value: {} }])).toEqual({
+      _tag: "Left",
+      left: [0, "/toString does not exist"]
+    });
+    const result = runParser(
+      patch.validate(user, [{ op: "add", path: "/__proto__/polluted", value: "yes" }]),
+      document
+    );
+    expect(isFailure(result) && report.text(result.left)).toEqual("at [0]: /__proto__ is not allowed");
+    expect(({} as any).polluted).toBeUndefined();
+  });
+});
+
+describe("patch.validate", () => {
+  test("parses the patched document", () => {
+    const result = runParser(patch.validate(user, [{ op: "replace", path: "/age", value: 37 }]), document);
+    expect(isSuccess(result) && result.right).toEqual({ name: "Ada", age: 37, tags: ["math"] });
+  });
+
+  test("reports errors under the index of the operation that caused them", () => {
+    const ops = [
+      { op: "add", path: "/tags/-", value: "logic" },
+      { op: "replace", path: "/age", value: "old" }
+    ];
+    const result = runParser(patch.validate(user, ops), document);
+    expect(isFailure(result) && report.text(result.left)).toEqual('at [1].age: expected number, got string "old"');
+    const all = runParserAll(patch.validate(user, [...ops, { op: "remove", path: "/name" }]), document);
+    expect(isFailure(all) && report.text(all.left)).toEqual(
+      ["at [2].name: missing required field name", 'at [1].age: expected number, got string "old"'].join("\n")
+    );
+  });
+
+  test("reports operations that cannot be applied", () => {
+    const result = runParser(patch.validate(user, [{ op: "remove", path: "/email" }]), document);
+    expect(isFailure(result) && report.text(result.left)).toEqual("at [0]: /email does not exist");
+  });
+
+  test("reports malformed operations", () => {
+    const result = runParser(patch.validate(user, [{ op: "replace", path: "age" }]), document);
+    expect(isFailure(result) && result.left._tag).toEqual("ElementMisMatch");
+    const pointer = runParser(patch.validate(user, [{ op: "move", from: "name~2", path: "/alias" }]), document);
+    expect(isFailure(pointer) && report.text(pointer.left)).toEqual('at [0].from: "name~2" is not a JSON Pointer');
+    expect(isFailure(runParser(patch.validate(user, {}), document))).toBeTruthy();
+  });
+
+  test("errors no operation caused are reported as they are", () => {
+    const result = runParser(patch.validate(user, [{ op: "replace", path: "/name", value: "a" }]), { name: "b" });
+    expect(isFailure(result) && report.text(result.left)).toEqual("at root: missing required field age");
+  });
+});
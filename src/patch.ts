@@ -0,0 +1,289 @@
+import { Either, isLeft, left, right, Right } from "fp-ts/lib/Either";
+import { NonEmptyArray } from "fp-ts/lib/NonEmptyArray";
+import _ from "lodash";
+import { ElementMismatchError, FieldDoesNotExistError, Path, PathError, PredicateMismatchError } from "./errors";
+import {
+  array,
+  field,
+  from,
+  isParserError,
+  object,
+  ParseAllResult,
+  ParseResult,
+  Parser,
+  ParserErrorType,
+  ParserReturnType,
+  runParserAll,
+  string,
+  union
+} from "./index";
+import { toJsonPointer, toPathErrors } from "./report";
+
+const jsonPointer = /^(\/([^~/]|~[01])*)*$/;
+
+const pointer = string.predicate(
+  s => jsonPointer.test(s),
+  s => `${JSON.stringify(s)} is not a JSON Pointer`
+);
+
+const anything: Parser<unknown, never> = from(o => right(o));
+
+const operation = union.tagged("op", {
+  add: object.of({ path: field.required("path", pointer), value: field.required("value", anything) }),
+  remove: object.of({ path: field.required("path", pointer) }),
+  replace: object.of({ path: field.required("path", pointer), value: field.required("value", anything) }),
+  move: object.of({ from: field.required("from", pointer), path: field.required("path", pointer) }),
+  copy: object.of({ from: field.required("from", pointer), path: field.required("path", pointer) }),
+  test: object.of({ path: field.required("path", pointer), value: field.required("value", anything) })
+});
+
+const operations = array.of(operation);
+
+/**
+ * The segments of a JSON Pointer (RFC 6901).
+ */
+const segments = (pointer: string): Array<string> =>
+  pointer === ""
+    ? []
+    : pointer
+        .slice(1)
+        .split("/")
+        .map(segment => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+
+/**
+ * Keys that would reach the prototypes of the patched document rather than its own values.
+ */
+const unsafe = ["__proto__", "constructor", "prototype"];
+
+const has = (container: object, key: string) => Object.prototype.hasOwnProperty.call(container, key);
+
+/**
+ * The container holding the value at `path` and the key of the value in it, or a reason why there is none.
+ */
+const locate = (document: unknown, path: Array<string>): Either<string, [object, string]> => {
+  const forbidden = path.findIndex(key => unsafe.indexOf(key) !== -1);
+  if (forbidden !== -1) {
+    return left(`${toJsonPointer(path.slice(0, forbidden + 1))} is not allowed`);
+  }
+  let container: unknown = document;
+  for (let i = 0; i < path.length - 1; ++i) {
+    const key = path[i];
+    if (typeof container !== "object" || container === null || !has(container, key)) {
+      return left(`${toJsonPointer(path.slice(0, i + 1))} does not exist`);
+    }
+    container = (container as any)[key];
+  }
+  if (typeof container !== "object" || container === null) {
+    return left(`${toJsonPointer(path.slice(0, -1))} is not an object or an array`);
+  }
+  return right([container, path[path.length - 1]]);
+};
+
+const arrayIndex = (key: string, length: number): number | undefined =>
+  /^(0|[1-9]\d*)$/.test(key) && +key <= length ? +key : undefined;
+
+export namespace patch {
+  export type Operation = ParserReturnType<typeof operation>;
+
+  /**
+   * Errors of `patch.validate`: a malformed operation, an operation that cannot be applied, or an error of the
+   * patched document caused by an operation (under the index of the operation).
+   */
+  export type PatchError<E> =
+    | array.ArrayParserError<ParserErrorType<typeof operation>>
+    | ElementMismatchError<PredicateMismatchError | E>
+    | E;
+
+  /**
+   * The result of applying a patch: the patched document and the path of the value changed by each operation
+   * (none for `test`), or the index of the operation that cannot be applied and why.
+   */
+  export type Applied = Either<[number, string], { document: unknown; paths: Array<Path | undefined> }>;
+
+  /**
+   * Apply the operations of a JSON Patch (RFC 6902) to a copy of `document`.
+   */
+  export function apply(document: unknown, ops: Array<Operation>): Applied {
+    let result = _.cloneDeep(document);
+    const paths: Array<Path | undefined> = [];
+    const get = (path: Array<string>): Either<string, unknown> => {
+      if (path.length === 0) {
+        return right(result);
+      }
+      const located = locate(result, path);
+      if (isLeft(located)) {
+        return located;
+      }
+      const [container, key] = located.right;
+      const exists = Array.isArray(container)
+        ? arrayIndex(key, container.length - 1) !== undefined
+        : has(container, key);
+      return exists ? right((container as any)[key]) : left(`${toJsonPointer(path)} does not exist`);
+    };
+    /**
+     * Set the value at `path`, inserting it if the container is an array and `insert`.
+     */
+    const set = (path: Array<string>, value: unknown, insert: boolean): Either<string, Path> => {
+      if (path.length === 0) {
+        result = value;
+        return right([]);
+      }
+      const located = locate(result, path);
+      if (isLeft(located)) {
+        return located;
+      }
+      const [container, key] = located.right;
+      if (!Array.isArray(container)) {
+        Object.defineProperty(container, key, { value, enumerable: true, writable: true, configurable: true });
+        return right(path);
+      }
+      const index = key === "-" && insert ? container.length : arrayIndex(key, container.length - (insert ? 0 : 1));
+      if (index === undefined) {
+        return left(`${key} is not an index of ${toJsonPointer(path.slice(0, -1))}`);
+      }
+      container.splice(index, insert ? 0 : 1, value);
+      return right([...path.slice(0, -1), index]);
+    };
+    const remove = (path: Array<string>): Either<string, Path> => {
+      const existing = get(path);
+      if (isLeft(existing)) {
+        return existing;
+      }
+      if (path.length === 0) {
+        return left("the whole document cannot be removed");
+      }
+      const [container, key] = (locate(result, path) as Right<[object, string]>).right;
+      if (Array.isArray(container)) {
+        container.splice(+key, 1);
+      } else {
+        delete (container as any)[key];
+      }
+      return right(path);
+    };
+    for (let index = 0; index < ops.length; ++index) {
+      const op = ops[index];
+      const path = segments(op.path);
+      let changed: Either<string, Path | undefined>;
+      switch (op.op) {
+        case "add":
+          changed = set(path, _.cloneDeep(op.value), true);
+          break;
+        case "remove":
+          changed = remove(path);
+          break;
+        case "replace":
+          const replaced = get(path);
+          changed = isLeft(replaced) ? replaced : set(path, _.cloneDeep(op.value), false);
+          break;
+        case "move":
+          const from = segments(op.from);
+          const moved = get(from);
+          if (isLeft(moved)) {
+            changed = moved;
+          } else if (from.length < path.length && _.isEqual(from, path.slice(0, from.length))) {
+            changed = left(`${op.from} cannot be moved into itself`);
+          } else {
+            remove(from);
+            changed = set(path, moved.right, true);
+          }
+          break;
+        case "copy":
+          const copied = get(segments(op.from));
+          changed = isLeft(copied) ? copied : set(path, _.cloneDeep(copied.right), true);
+          break;
+        case "test":
+          const tested = get(path);
+          changed = isLeft(tested)
+            ? tested
+            : _.isEqual(tested.right, op.value)
+            ? right(undefined)
+            : left(`${op.path} is not equal to the tested value`);
+      }
+      if (isLeft(changed)) {
+        return left([index, changed.left]);
+      }
+      paths.push(changed.right);
+    }
+    return right({ document: result, paths });
+  }
+
+  /**
+   * The index of the last operation that changed the value at `path`, or a value containing it or contained in it.
+   */
+  const causeOf = (paths: Array<Path | undefined>, path: Path): number | undefined => {
+    const within = (a: Path, b: Path) =>
+      b.length <= a.length && _.isEqual(a.slice(0, b.length).map(String), b.map(String));
+    const index = _.findLastIndex(
+      paths,
+      changed => changed !== undefined && (within(path, changed) || within(changed, path))
+    );
+    return index === -1 ? undefined : index;
+  };
+
+  /**
+   * Parse the documents given by applying the operations of the JSON Patch `ops` with `parser`, such as for the
+   * partial updates of a resource. Each error is reported under the index of the operation that caused it: a
+   * malformed operation, an operation that cannot be applied, or one that gives a document rejected by
+   * `parser`. Errors of the document that no operation caused are reported as they are.
+   *
+   * @param parser the parser of the whole resource
+   * @param ops the operations of the patch, checked to be valid operations
+   */
+  export function validate<R, E>(parser: Parser<R, E>, ops: unknown): Parser<R, PatchError<E>, unknown> {
+    const failed = (index: number, op: unknown, reason: string): ElementMismatchError<PredicateMismatchError> => ({
+      _tag: "ElementMisMatch",
+      index,
+      value: ops,
+      cause: { _tag: "PredicateMismatch", value: op, customMessage: reason }
+    });
+    return from(
+      (document): ParseResult<PatchError<E>, R> => {
+        const parsed = operations.runParser(ops);
+        if (isLeft(parsed)) {
+          return parsed;
+        }
+        const applied = apply(document, parsed.right);
+        if (isLeft(applied)) {
+          const [index, reason] = applied.left;
+          return left(failed(index, parsed.right[index], reason));
+        }
+        const result = parser.runParser(applied.right.document);
+        if (!isLeft(result)) {
+          return result;
+        }
+        const [{ path, error }] = toPathErrors(result.left);
+        // missing fields are reported on their object, which is not what the operations changed
+        const missing =
+          isParserError(error) && error._tag === "FieldDoesNotExistOn"
+            ? [(error as FieldDoesNotExistError).field as string]
+            : [];
+        const index = causeOf(applied.right.paths, [...path, ...missing]);
+        return index === undefined
+          ? result
+          : left({ _tag: "ElementMisMatch", index, value: ops, cause: result.left } as PatchError<E>);
+      },
+      (document): ParseAllResult<PatchError<E>, R> => {
+        const parsed = runParserAll(operations, ops);
+        if (isLeft(parsed)) {
+          return parsed;
+        }
+        const applied = apply(document, parsed.right);
+        if (isLeft(applied)) {
+          const [index, reason] = applied.left;
+          return left([{ path: [index], error: failed(index, parsed.right[index], reason).cause }]);
+        }
+        const paths = applied.right.paths;
+        const result = runParserAll(parser, applied.right.document);
+        if (!isLeft(result)) {
+          return result;
+        }
+        return left(
+          result.left.map(({ path, error }) => {
+            const index = causeOf(paths, path);
+            return { path: index === undefined ? path : [index, ...path], error };
+          }) as NonEmptyArray<PathError<PatchError<E>>>
+        );
+      }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  array,
+  field,
+  formatPath,
+  object,
+  or,
+  Parser,
+  ParseError,
+  recursive,
+  report,
+  runParser,
+  runParserAll,
+  runParserEx,
+  showValue,
+  thing,
+  toJsonPointer,
+  UnunknownError,
+  number
+} from "./index";
+import { failure } from "./test-util";
+
+interface Person {
+  name: string;
+  age?: number;
+  children: Array<Person>;
+}
+
+const personValidator: Parser<Person, unknown> = recursive(() =>
+  object.of({
+    name: field.required("name", thing.is.string),
+    age: field.optional("age", thing.is.number),
+    children: field.required("children", array.of(personValidator))
+  })
+);
+
+const leaf = (age: unknown) => ({ name: "leaf", age, children: [] });
+
+describe("paths", () => {
+  test("accessor", () => {
+    expect(formatPath([])).toEqual("");
+    expect(formatPath(["children", 2, "age"])).toEqual(".children[2].age");
+    expect(formatPath(["first name", "$ok"])).toEqual('["first name"].$ok');
+  });
+
+  test("json pointer", () => {
+    expect(toJsonPointer([])).toEqual("");
+    expect(toJsonPointer(["children", 2, "a/b~c"])).toEqual("/children/2/a~1b~0c");
+  });
+});
+
+describe("values", () => {
+  test("shows the type with the value", () => {
+    expect(showValue("12")).toEqual('string "12"');
+    expect(showValue(12)).toEqual("number 12");
+    expect(showValue(null)).toEqual("null");
+    expect(showValue(undefined)).toEqual("undefined");
+    expect(showValue([1, 2])).toEqual("array [1,2]");
+  });
+
+  test("truncates large values", () => {
+    expect(showValue({ a: "x".repeat(100) }, 10)).toEqual('object {"a":"xxxx...');
+    const circular: any = {};
+    circular.self = circular;
+    expect(showValue(circular)).toEqual('object {"self":"[Circular]"}');
+  });
+});
+
+describe("report", () => {
+  const input = { name: "top", children: [leaf(1), leaf(2), leaf("12")] };
+
+  test("text from a single error", () => {
+    expect(report.text(failure(runParser(personValidator, input)))).toEqual(
+      'at .children[2].age: expected number, got string "12"'
+    );
+  });
+
+  test("text from accumulated errors", () => {
+    const errors = failure(runParserAll(personValidator, { children: [leaf("12"), 0] }));
+    expect(report.text(errors).split("\n")).toEqual([
+      "at .name: missing required field name",
+      'at .children[0].age: expected number, got string "12"',
+      "at .children[1]: expected object, got number 0"
+    ]);
+  });
+
+  test("ansi", () => {
+    expect(report.ansi(failure(runParser(thing.is.string, 0)))).toEqual(
+      "\u001b[2mat\u001b[22m \u001b[36mroot\u001b[39m\u001b[2m:\u001b[22m \u001b[31mexpected string, got number 0\u001b[39m"
+    );
+  });
+
+  test("json pointers", () => {
+    const errors = failure(runParserAll(personValidator, { name: 0, children: [leaf("12")] }));
+    expect(report.pointers(errors)).toEqual({
+      "/name": ["expected string, got number 0"],
+      "/children/0/age": ['expected number, got string "12"']
+    });
+  });
+
+  test("alternatives", () => {
+    expect(report.text(failure(runParser(or(thing.is.string, number.range.inclusive(0, 1)), 2)))).toEqual(
+      "at root: none of 2 alternatives matched (expected string, got number 2; 2 is not in range [0,1])"
+    );
+  });
+
+  test("custom templates and errors", () => {
+    const options = { templates: { NotOfType: () => "wrong type" } };
+    expect(report.text(failure(runParser(personValidator, { name: 0 })), options)).toEqual("at .name: wrong type");
+    expect(report.text("custom failure")).toEqual("at root: custom failure");
+  });
+});
+
+describe("runParserEx", () => {
+  test("throws a ParseError", () => {
+    const input = { name: "top", children: [leaf("12")] };
+    let thrown: unknown;
+    try {
+      runParserEx(personValidator, input);
+    } catch (e) {
+      thrown = e;
+    }
+    expect(thrown).toBeInstanceOf(ParseError);
+    expect(thrown).toBeInstanceOf(UnunknownError);
+    expect((thrown as ParseError).message).toEqual('at .children[0].age: expected number, got string "12"');
+    expect((thrown as ParseError).error).toEqual(failure(runParser(personValidator, input)));
+  });
+});
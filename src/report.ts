@@ -0,0 +1,265 @@
+import { isParserError, ParserErrorOfTag, ParserErrorTag, Path, PathError, UnunknownError } from "./errors";
+
+/**
+ * Render a value for an error message.
+ */
+export type Show = (value: unknown) => string;
+
+/**
+ * Message templates for each kind of built-in error. Nested errors (`FieldMisMatch` and `ElementMisMatch`)
+ * are unwrapped into paths before their cause is formatted, so their templates are only used for errors
+ * that are formatted on their own.
+ */
+export type Templates = { [K in ParserErrorTag]: (error: ParserErrorOfTag<K>, show: Show) => string };
+
+export interface ReportOptions {
+  /** Override the messages of specific error tags. */
+  templates?: Partial<Templates>;
+  /** Values whose rendering is longer than this are truncated, defaults to 40 characters. */
+  maxValueLength?: number;
+}
+
+const truncate = (s: string, maxLength: number) => (s.length > maxLength ? `${s.slice(0, maxLength)}...` : s);
+
+const stringify = (value: unknown): string => {
+  const seen: Array<unknown> = [];
+  try {
+    const result = JSON.stringify(value, (_, v) => {
+      if (typeof v === "bigint") {
+        return `${v}n`;
+      }
+      if (typeof v === "object" && v !== null) {
+        if (seen.indexOf(v) !== -1) {
+          return "[Circular]";
+        }
+        seen.push(v);
+      }
+      return v;
+    });
+    return result === undefined ? String(value) : result;
+  } catch (_) {
+    return String(value);
+  }
+};
+
+/**
+ * Render a value along with its type, such as `string "12"` or `object {"a":1}`.
+ */
+export const showValue = (value: unknown, maxLength: number = 40): string => {
+  if (value === null) {
+    return "null";
+  } else if (value === undefined) {
+    return "undefined";
+  } else if (Array.isArray(value)) {
+    return `array ${truncate(stringify(value), maxLength)}`;
+  } else if (typeof value === "function") {
+    return `function ${value.name || "<anonymous>"}`;
+  } else if (typeof value === "bigint") {
+    return `bigint ${truncate(`${value}n`, maxLength)}`;
+  } else if (typeof value === "symbol") {
+    return `symbol ${truncate(value.toString(), maxLength)}`;
+  } else if (typeof value === "number") {
+    // JSON has no representation of NaN and the infinities
+    return `number ${truncate(String(value), maxLength)}`;
+  } else {
+    return `${typeof value} ${truncate(stringify(value), maxLength)}`;
+  }
+};
+
+const identifier = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Render a path as a javascript accessor, such as `.children[2].age`.
+ */
+export const formatPath = (path: Path): string =>
+  path
+    .map(segment =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : identifier.test(segment)
+        ? `.${segment}`
+        : `[${JSON.stringify(segment)}]`
+    )
+    .join("");
+
+/**
+ * Render a path as a JSON Pointer (RFC 6901), such as `/children/2/age`.
+ */
+export const toJsonPointer = (path: Path): string =>
+  path
+    .map(
+      segment =>
+        `/${String(segment)
+          .replace(/~/g, "~0")
+          .replace(/\//g, "~1")}`
+    )
+    .join("");
+
+const isPathErrorList = (u: unknown): u is Array<PathError<unknown>> =>
+  Array.isArray(u) &&
+  u.length > 0 &&
+  u.every(e => typeof e === "object" && e !== null && Array.isArray(e.path) && "error" in e);
+
+/**
+ * Flatten an error into the errors at the leaves of the input, each with its path.
+ *
+ * @param error either an error returned by `runParser`, or the list of errors returned by `runParserAll`
+ */
+export function toPathErrors(error: unknown): Array<PathError<unknown>> {
+  if (isPathErrorList(error)) {
+    return error.reduce(
+      (all, { path, error }) =>
+        all.concat(toPathErrors(error).map(e => ({ path: [...path, ...e.path], error: e.error }))),
+      [] as Array<PathError<unknown>>
+    );
+  }
+  if (isParserError(error)) {
+    const nested = error;
+    if (nested._tag === "FieldMisMatch" && typeof nested.field !== "symbol") {
+      const field = nested.field;
+      return toPathErrors(nested.cause).map(({ path, error }) => ({ path: [field, ...path], error }));
+    } else if (nested._tag === "ElementMisMatch") {
+      const index = nested.index;
+      return toPathErrors(nested.cause).map(({ path, error }) => ({ path: [index, ...path], error }));
+    }
+  }
+  return [{ path: [], error }];
+}
+
+const atPath = (path: Path) => (path.length === 0 ? "at root" : `at ${formatPath(path)}`);
+
+const defaultTemplates = (format: (error: unknown) => string): Templates => ({
+  NotOfType: (e, show) => `expected ${e.type}, got ${show(e.value)}`,
+  OfExcludedType: (e, show) => `expected anything but ${e.type}, got ${show(e.value)}`,
+  NotEqual: (e, show) => `expected ${stringify(e.to)}, got ${show(e.value)}`,
+  NotOneOf: (e, show) =>
+    `expected ${e.values.length === 1 ? "" : "one of "}${e.values
+      .map(value => (typeof value === "bigint" ? `${value}n` : value === undefined ? "undefined" : stringify(value)))
+      .join(", ")}, got ${show(e.value)}`,
+  PredicateMismatch: e => e.customMessage,
+  InvalidFormat: (e, show) => `expected a valid ${e.format}, got ${show(e.value)}`,
+  LengthMismatch: (e, show) =>
+    `expected a length ${
+      e.min === e.max
+        ? `of ${e.min}`
+        : e.max === undefined
+        ? `of at least ${e.min}`
+        : e.min === undefined
+        ? `of at most ${e.max}`
+        : `in [${e.min},${e.max}]`
+    }, got ${show(e.value)}`,
+  MissingPrefix: (e, show) => `expected a string starting with ${JSON.stringify(e.prefix)}, got ${show(e.value)}`,
+  NotTrimmed: (e, show) => `expected no leading or trailing whitespace, got ${show(e.value)}`,
+  NotFinite: (e, show) => `expected a finite number, got ${show(e.value)}`,
+  NotAnInteger: (e, show) => `expected an integer, got ${show(e.value)}`,
+  OutOfRange: (e, show) =>
+    `expected ${typeof e.value === "bigint" ? "a bigint" : "a number"} ${
+      e.min !== undefined && e.max !== undefined
+        ? e.exclusive
+          ? `in (${e.min},${e.max})`
+          : `in [${e.min},${e.max}]`
+        : e.min !== undefined
+        ? `${e.exclusive ? "greater than" : "of at least"} ${e.min}`
+        : `${e.exclusive ? "less than" : "of at most"} ${e.max}`
+    }, got ${show(e.value)}`,
+  NotAMultipleOf: (e, show) => `expected a multiple of ${e.multipleOf}, got ${show(e.value)}`,
+  FieldDoesNotExistOn: e => `missing required field ${String(e.field)}`,
+  FieldMisMatch: e => `field ${String(e.field)}: ${format(e.cause)}`,
+  UnexpectedKeys: e =>
+    `unexpected ${e.keys.length === 1 ? "key" : "keys"} ${e.keys.map(key => JSON.stringify(key)).join(", ")}`,
+  KeyMisMatch: e => `key ${JSON.stringify(e.key)}: ${format(e.cause)}`,
+  NotAnArray: (e, show) => `expected array, got ${show(e.value)}`,
+  ElementMisMatch: e => `element ${e.index}: ${format(e.cause)}`,
+  NoAlternativeMatched: e =>
+    `none of ${e.causes.length} alternatives matched (${e.causes
+      .map(cause =>
+        toPathErrors(cause)
+          .map(({ path, error }) => (path.length === 0 ? format(error) : `${atPath(path)}: ${format(error)}`))
+          .join(", ")
+      )
+      .join("; ")})`,
+  UnknownTag: (e, show) =>
+    `expected ${e.field} to be one of ${e.tags.map(tag => JSON.stringify(tag)).join(", ")}, got ${show(
+      typeof e.value === "object" && e.value !== null ? (e.value as any)[e.field] : undefined
+    )}`,
+  CircularReference: () => "circular reference to a value that is being parsed",
+  MaxDepthExceeded: e => `exceeded the maximum depth of ${e.maxDepth}`
+});
+
+/**
+ * Create a function that gives the message for a single error, without its location.
+ */
+export function formatter(options: ReportOptions = {}): (error: unknown) => string {
+  const maxLength = options.maxValueLength === undefined ? 40 : options.maxValueLength;
+  const show: Show = value => showValue(value, maxLength);
+  const format = (error: unknown): string => {
+    if (isParserError(error)) {
+      const template = (options.templates || {})[error._tag] || templates[error._tag];
+      return (template as (error: unknown, show: Show) => string)(error, show);
+    } else if (typeof error === "string") {
+      return error;
+    } else {
+      return truncate(stringify(error), maxLength);
+    }
+  };
+  const templates = defaultTemplates(format);
+  return format;
+}
+
+const colors = {
+  dim: (s: string) => `\u001b[2m${s}\u001b[22m`,
+  cyan: (s: string) => `\u001b[36m${s}\u001b[39m`,
+  red: (s: string) => `\u001b[31m${s}\u001b[39m`
+};
+
+export namespace report {
+  /**
+   * Format an error as plain text, one line per failure, such as
+   * `at .children[2].age: expected number, got string "12"`.
+   *
+   * @param error either an error returned by `runParser`, or the list of errors returned by `runParserAll`
+   */
+  export function text(error: unknown, options: ReportOptions = {}): string {
+    const format = formatter(options);
+    return toPathErrors(error)
+      .map(({ path, error }) => `${atPath(path)}: ${format(error)}`)
+      .join("\n");
+  }
+
+  /**
+   * Like `text`, but colored with ANSI escape codes for display in a terminal.
+   */
+  export function ansi(error: unknown, options: ReportOptions = {}): string {
+    const format = formatter(options);
+    return toPathErrors(error)
+      .map(({ path, error }) => {
+        const location = path.length === 0 ? "root" : formatPath(path);
+        return `${colors.dim("at")} ${colors.cyan(location)}${colors.dim(":")} ${colors.red(format(error))}`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Group the messages for each failure by the JSON Pointer (RFC 6901) of the value that caused it.
+   * The root value has the pointer `""`.
+   */
+  export function pointers(error: unknown, options: ReportOptions = {}): Record<string, Array<string>> {
+    const format = formatter(options);
+    const result: Record<string, Array<string>> = {};
+    toPathErrors(error).forEach(({ path, error }) => {
+      const pointer = toJsonPointer(path);
+      (result[pointer] = result[pointer] || []).push(format(error));
+    });
+    return result;
+  }
+}
+
+/**
+ * Thrown by `runParserEx` when parsing fails, carrying the structured error of the parser.
+ */
+export class ParseError<E = unknown> extends UnunknownError {
+  constructor(public readonly error: E, options: ReportOptions = {}) {
+    super(report.text(error, options));
+    this.name = "ParseError";
+  }
+}
@@ -0,0 +1,139 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Readable } from "stream";
+import { field, isFailure, isSuccess, map, object, report, thing } from "./index";
+import { stream } from "./stream";
+
+const item = object.of({
+  id: field.required("id", thing.is.number),
+  name: field.required("name", thing.is.string)
+});
+
+const collect = (readable: Readable): Promise<Array<stream.StreamRecord<unknown, unknown>>> =>
+  new Promise((resolve, reject) => {
+    const records: Array<stream.StreamRecord<unknown, unknown>> = [];
+    readable.on("data", record => records.push(record));
+    readable.on("end", () => resolve(records));
+    readable.on("error", reject);
+  });
+
+const failures = (records: Array<stream.StreamRecord<unknown, unknown>>) =>
+  records
+    .filter(record => isFailure(record.result))
+    .map(({ index, line, result }) => [index, line, isFailure(result) ? report.text(result.left) : ""]);
+
+describe("stream", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "ununknown-"));
+  const count = 5000;
+  // every 1000th record is invalid, and names have characters of several bytes to split across chunks
+  const items = Array.from({ length: count }, (_, id) =>
+    id % 1000 === 999 ? { id: String(id) } : { id, name: `é${id}` }
+  );
+  const ndjsonFile = path.join(directory, "items.ndjson");
+  const arrayFile = path.join(directory, "items.json");
+  fs.writeFileSync(ndjsonFile, items.map(each => JSON.stringify(each)).join("\n") + "\n\n");
+  fs.writeFileSync(arrayFile, JSON.stringify(items, null, 2));
+
+  afterAll(() => {
+    fs.unlinkSync(ndjsonFile);
+    fs.unlinkSync(arrayFile);
+    fs.rmdirSync(directory);
+  });
+
+  test("parses the records of NDJSON files", async () => {
+    const records = await collect(stream.parse(fs.createReadStream(ndjsonFile, { highWaterMark: 1024 }), item));
+    expect(records.length).toEqual(count);
+    expect(records[3]).toEqual({ index: 3, line: 4, result: { _tag: "Right", right: { id: 3, name: "é3" } } });
+    expect(failures(records)).toEqual(
+      [999, 1999, 2999, 3999, 4999].map(id => [id, id + 1, 'at .id: expected number, got string "' + id + '"'])
+    );
+  });
+
+  test("parses the elements of JSON arrays", async () => {
+    const records = await collect(
+      stream.parse(fs.createReadStream(arrayFile, { highWaterMark: 1024 }), item, { format: "array" })
+    );
+    expect(records.length).toEqual(count);
+    expect(records.every((record, index) => record.index === index)).toBeTruthy();
+    // each element takes 4 lines, after the opening bracket
+    expect(records[1].line).toEqual(6);
+    expect(failures(records)[0]).toEqual([999, 3998, 'at .id: expected number, got string "999"']);
+  });
+
+  test("fails fast", async () => {
+    const records = stream.parse(fs.createReadStream(ndjsonFile), item, { policy: "failFast" });
+    const error = await collect(records).catch(e => e);
+    expect(error).toBeInstanceOf(stream.RecordError);
+    expect(error.index).toEqual(999);
+    expect(error.line).toEqual(1000);
+    expect(error.message).toEqual('invalid record 999 on line 1000: at .id: expected number, got string "999"');
+  });
+
+  test("limits the number of errors", async () => {
+    const seen: Array<number> = [];
+    const records = stream.parse(fs.createReadStream(ndjsonFile), item, { maxErrors: 2 });
+    records.on("data", record => isFailure(record.result) && seen.push(record.index));
+    const error = await collect(records).catch(e => e);
+    expect(seen).toEqual([999, 1999]);
+    expect(error.index).toEqual(2999);
+  });
+
+  test("reports invalid JSON as invalid records", async () => {
+    const records = await collect(
+      stream.parse(['{"id": 1, "name": "a"}\n{"id":', "\n", '[1,2]\n{"id": 2, "name"', ': "b"}'], item)
+    );
+    expect(records.map(record => isSuccess(record.result))).toEqual([true, false, false, true]);
+    expect(failures(records).map(([index, line]) => [index, line])).toEqual([
+      [1, 2],
+      [2, 3]
+    ]);
+    const elements = await collect(
+      stream.parse(['[{"id": 1, "name": "a,]"}', ", {}, ", "]"], item, { format: "array" })
+    );
+    // trailing commas are not valid JSON
+    expect(elements.map(record => isSuccess(record.result))).toEqual([true, false, false]);
+    expect(await collect(stream.parse([" [ ] "], item, { format: "array" }))).toEqual([]);
+  });
+
+  test("fails the stream on exceptions of the parser", async () => {
+    const throwing = map(item, () => {
+      throw new Error("cannot save the item");
+    });
+    const records = stream.parse(['{"id": 1, "name": "a"}\n'], throwing);
+    await expect(collect(records)).rejects.toThrow("cannot save the item");
+  });
+
+  test("fails on text that is not a JSON array", async () => {
+    await expect(collect(stream.parse(["{}"], item, { format: "array" }))).rejects.toThrow(
+      "expected a JSON array on line 1"
+    );
+    await expect(collect(stream.parse(['[{"id": 1'], item, { format: "array" }))).rejects.toThrow(
+      "unexpected end of the JSON array"
+    );
+  });
+
+  test("reads async iterables", async () => {
+    const chunks = ['{"id": 1, "name": "a"}\n', '{"id": 2, "name": "b"}'];
+    const source: AsyncIterable<string> = {
+      [Symbol.asyncIterator]: () => ({
+        next: () =>
+          Promise.resolve<IteratorResult<string>>(
+            chunks.length > 0 ? { done: false, value: chunks.shift()! } : { done: true, value: undefined }
+          )
+      })
+    };
+    const records = await collect(stream.parse(source, item));
+    expect(records.map(record => record.index)).toEqual([0, 1]);
+  });
+
+  test("applies backpressure", () => {
+    const records = stream.ndjson(item);
+    const line = JSON.stringify({ id: 1, name: "a" }) + "\n";
+    records.write(line.repeat(100));
+    expect(records.readableLength).toEqual(100);
+    // the records that are not read keep further text from being parsed, until the writer has to wait
+    expect(records.write(line.repeat(1000))).toBeFalsy();
+    expect(records.readableLength).toEqual(100);
+  });
+});
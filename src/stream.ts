@@ -0,0 +1,214 @@
+import { left } from "fp-ts/lib/Either";
+import { Readable, Transform } from "stream";
+import { StringDecoder } from "string_decoder";
+import { PredicateMismatchError } from "./errors";
+import { isFailure, ParseResult, Parser } from "./index";
+import { ParseError } from "./report";
+
+const whitespace = /\s/;
+
+export namespace stream {
+  /**
+   * The result of parsing a record of a stream, with the index of the record (from 0) and the line it starts
+   * on (from 1).
+   */
+  export interface StreamRecord<R, E> {
+    index: number;
+    line: number;
+    result: ParseResult<E | PredicateMismatchError, R>;
+  }
+
+  export interface StreamOptions {
+    /**
+     * Whether to fail the stream on the first invalid record, or to emit invalid records along with valid
+     * ones. Defaults to `"collect"`.
+     */
+    policy?: "failFast" | "collect";
+    /** Fail the stream once more than this many records are invalid. */
+    maxErrors?: number;
+  }
+
+  /**
+   * The error of a stream that failed on an invalid record, carrying the structured error of the record.
+   */
+  export class RecordError<E = unknown> extends ParseError<E> {
+    constructor(public readonly index: number, public readonly line: number, error: E) {
+      super(error);
+      this.name = "RecordError";
+      this.message = `invalid record ${index} on line ${line}: ${this.message}`;
+    }
+  }
+
+  /**
+   * Parse the text of each record, returning the error that fails the stream, if any: too many invalid records,
+   * or an exception thrown by `parser`.
+   */
+  const recorder = <R, E>(parser: Parser<R, E>, options: StreamOptions, push: (record: StreamRecord<R, E>) => void) => {
+    const maxErrors =
+      options.policy === "failFast" ? 0 : options.maxErrors === undefined ? Infinity : options.maxErrors;
+    let index = 0;
+    let errors = 0;
+    const parse = (text: string): StreamRecord<R, E>["result"] => {
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch (e) {
+        return left({ _tag: "PredicateMismatch", value: text, customMessage: `invalid JSON: ${e.message}` });
+      }
+      return parser.runParser(value);
+    };
+    return (text: string, line: number): Error | undefined => {
+      let result: StreamRecord<R, E>["result"];
+      try {
+        result = parse(text);
+      } catch (e) {
+        return e instanceof Error ? e : new Error(String(e));
+      }
+      const record = { index: index++, line, result };
+      if (isFailure(result) && ++errors > maxErrors) {
+        return new RecordError(record.index, line, result.left);
+      }
+      push(record);
+      return undefined;
+    };
+  };
+
+  /**
+   * A stream of the records of newline-delimited JSON text (NDJSON), each parsed by `parser`. Blank lines are
+   * skipped. Only the current line is kept in memory, and the stream applies backpressure like other streams.
+   */
+  export function ndjson<R, E>(parser: Parser<R, E>, options: StreamOptions = {}): Transform {
+    const decoder = new StringDecoder("utf8");
+    let pending = "";
+    let line = 0;
+    const transform: Transform = new Transform({
+      readableObjectMode: true,
+      transform(chunk: Buffer | string, _encoding, callback) {
+        const lines = (pending + (typeof chunk === "string" ? chunk : decoder.write(chunk))).split("\n");
+        pending = lines.pop()!;
+        callback(lines.reduce<Error | undefined>((error, text) => error || each(text), undefined));
+      },
+      flush(callback) {
+        const text = pending + decoder.end();
+        pending = "";
+        callback(each(text));
+      }
+    });
+    const record = recorder(parser, options, r => transform.push(r));
+    const each = (text: string): Error | undefined => {
+      ++line;
+      return text.trim() === "" ? undefined : record(text, line);
+    };
+    return transform;
+  }
+
+  /**
+   * A stream of the elements of a JSON array, each parsed by `parser`, such as for a large array at the top
+   * level of a file. Only the current element is kept in memory.
+   */
+  export function jsonArray<R, E>(parser: Parser<R, E>, options: StreamOptions = {}): Transform {
+    const decoder = new StringDecoder("utf8");
+    // the text from the start of the current element, of which `scanned` characters were scanned
+    let text = "";
+    let scanned = 0;
+    let line = 1;
+    let elementLine = 1;
+    let state: "before" | "elements" | "after" = "before";
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let blank = true;
+    let elements = 0;
+
+    const scan = (): Error | undefined => {
+      // where the current element starts in `text`, which is only sliced once per chunk
+      let start = 0;
+      for (let i = scanned; i < text.length; ++i) {
+        const c = text[i];
+        if (c === "\n") {
+          ++line;
+        }
+        if (state !== "elements") {
+          if (whitespace.test(c)) {
+            continue;
+          }
+          if (state === "before" && c === "[") {
+            state = "elements";
+            start = i + 1;
+            continue;
+          }
+          return new Error(`expected ${state === "before" ? "a JSON array" : "the end of the input"} on line ${line}`);
+        }
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (c === "\\") {
+            escaped = true;
+          } else if (c === '"') {
+            inString = false;
+          }
+          continue;
+        }
+        if (depth === 0 && (c === "," || c === "]")) {
+          const element = text.slice(start, i);
+          start = i + 1;
+          if (c === "]") {
+            state = "after";
+          }
+          // the closing bracket of an empty array has no element before it
+          const error = c === "]" && elements === 0 && blank ? undefined : record(element, elementLine);
+          ++elements;
+          blank = true;
+          if (error !== undefined) {
+            return error;
+          }
+          continue;
+        }
+        if (blank && !whitespace.test(c)) {
+          blank = false;
+          elementLine = line;
+        }
+        if (c === '"') {
+          inString = true;
+        } else if (c === "[" || c === "{") {
+          ++depth;
+        } else if (c === "]" || c === "}") {
+          --depth;
+        }
+      }
+      text = text.slice(start);
+      scanned = text.length;
+      return undefined;
+    };
+
+    const transform: Transform = new Transform({
+      readableObjectMode: true,
+      transform(chunk: Buffer | string, _encoding, callback) {
+        text += typeof chunk === "string" ? chunk : decoder.write(chunk);
+        callback(scan());
+      },
+      flush(callback) {
+        text += decoder.end();
+        const error = scan();
+        callback(error || (state === "after" ? undefined : new Error("unexpected end of the JSON array")));
+      }
+    });
+    const record = recorder(parser, options, r => transform.push(r));
+    return transform;
+  }
+
+  /**
+   * Parse the records of `source`, such as a file stream or an async iterable of text, as NDJSON or as the
+   * elements of a JSON array.
+   */
+  export function parse<R, E>(
+    source: Readable | Iterable<string | Buffer> | AsyncIterable<string | Buffer>,
+    parser: Parser<R, E>,
+    options: StreamOptions & { format?: "ndjson" | "array" } = {}
+  ): Readable {
+    const readable = source instanceof Readable ? source : Readable.from(source, { objectMode: false });
+    const records = options.format === "array" ? jsonArray(parser, options) : ndjson(parser, options);
+    readable.on("error", error => records.destroy(error));
+    return readable.pipe(records);
+  }
+}
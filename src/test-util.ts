@@ -0,0 +1,9 @@
+/**
+ * The error of a result that is expected to be a failure, to assert on without narrowing it first.
+ */
+export const failure = <E>(result: { _tag: "Left"; left: E } | { _tag: "Right" }): E => {
+  if (result._tag === "Right") {
+    throw new Error("expected failure");
+  }
+  return result.left;
+};
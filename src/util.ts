@@ -45,3 +45,15 @@ export type TypeNameToPrimitive<C extends string> = C extends "string"
   : C extends "boolean"
   ? boolean
   : never;
+
+/**
+ * An ISO 8601 date, optionally with a time and a time zone, such as `2020-02-29` or `2020-02-29T12:00:00.000Z`.
+ */
+export const isoDatePattern = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Set `key` of `o` as an own property, so that keys read from inputs, such as `__proto__`, cannot replace the
+ * prototype of `o`.
+ */
+export const defineValue = (o: object, key: PropertyKey, value: unknown) =>
+  Object.defineProperty(o, key, { value, enumerable: true, writable: true, configurable: true });